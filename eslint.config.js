@@ -38,7 +38,7 @@ export default [
     },
   },
   {
-    files: ["**/*.test.ts"],
+    files: ["**/*.test.ts", "src/test-helpers.ts"],
     languageOptions: {
       globals: {
         jest: "readonly",
@@ -4,9 +4,14 @@ module.exports = {
   transform: {
     "^.+\\.tsx?$": "ts-jest",
   },
+  // Sources import siblings with a .js extension for native ESM output
+  moduleNameMapper: {
+    "^(\\.{1,2}/.*)\\.js$": "$1",
+  },
   collectCoverageFrom: [
     "src/**/*.ts",
     "!src/**/*.test.ts",
+    "!src/test-helpers.ts",
     "!src/**/*.d.ts"
   ],
   coverageReporters: [
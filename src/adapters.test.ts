@@ -0,0 +1,153 @@
+import { CancelError, ConfigError, fetchAdapter, HttpClient, HttpProgressEvent, NetworkError, xhrAdapter } from "./index";
+import { tick } from "./test-helpers";
+
+// Just enough of XMLHttpRequest for the adapter; tests drive the events by hand
+class FakeXHR {
+  static last: FakeXHR;
+  method = "";
+  url = "";
+  headers: Record<string, string> = {};
+  body: unknown;
+  responseType = "";
+  withCredentials = false;
+  status = 0;
+  statusText = "";
+  response: ArrayBuffer | null = null;
+  rawHeaders = "";
+  aborted = false;
+  upload: { onprogress?: (_e: unknown) => void; onload?: () => void } = {};
+  onprogress?: (_e: unknown) => void;
+  onload?: () => void;
+  onerror?: () => void;
+
+  constructor() {
+    FakeXHR.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getAllResponseHeaders() {
+    return this.rawHeaders;
+  }
+
+  send(body: unknown) {
+    this.body = body;
+  }
+
+  abort() {
+    this.aborted = true;
+  }
+
+  respond(status: number, body: string, rawHeaders = "") {
+    this.status = status;
+    this.statusText = status === 201 ? "Created" : "OK";
+    this.response = new TextEncoder().encode(body).buffer as ArrayBuffer;
+    this.rawHeaders = rawHeaders;
+    this.onload?.();
+  }
+}
+
+describe("Transport adapters", () => {
+  const realXHR = (global as any).XMLHttpRequest;
+
+  beforeEach(() => {
+    (global as any).XMLHttpRequest = FakeXHR;
+  });
+
+  afterEach(() => {
+    (global as any).XMLHttpRequest = realXHR;
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should send requests through XMLHttpRequest and resolve the usual response", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+    const client = HttpClient.create({ baseURL: "https://api.example.com", adapter: xhrAdapter });
+
+    const pending = client.post("/items", { name: "lamp" }, { headers: { "X-Trace": "t-1" }, credentials: "include" });
+    await tick();
+    const xhr = FakeXHR.last;
+    expect(xhr.method).toBe("POST");
+    expect(xhr.url).toBe("https://api.example.com/items");
+    expect(xhr.headers["x-trace"]).toBe("t-1");
+    expect(xhr.headers["content-type"]).toBe("application/json");
+    expect(xhr.body).toBe(JSON.stringify({ name: "lamp" }));
+    expect(xhr.withCredentials).toBe(true);
+    xhr.respond(201, JSON.stringify({ id: 7 }), "Content-Type: application/json\r\nX-Request-Id: r-9\r\n");
+
+    const res = await pending;
+    expect(res.status).toBe(201);
+    expect(res.statusText).toBe("Created");
+    expect(res.data).toEqual({ id: 7 });
+    expect(res.headers["x-request-id"]).toBe("r-9");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should report native upload and download progress", async () => {
+    const uploads: HttpProgressEvent[] = [];
+    const downloads: HttpProgressEvent[] = [];
+    const pending = HttpClient.post("https://api.example.com/upload", "0123456789", {
+      adapter: xhrAdapter,
+      onUploadProgress: (e) => uploads.push(e),
+      onDownloadProgress: (e) => downloads.push(e),
+    });
+    await tick();
+    const xhr = FakeXHR.last;
+    xhr.upload.onprogress?.({ loaded: 4, total: 10, lengthComputable: true });
+    xhr.upload.onprogress?.({ loaded: 10, total: 10, lengthComputable: true });
+    xhr.upload.onload?.();
+    xhr.onprogress?.({ loaded: 2, total: 4, lengthComputable: true });
+    xhr.onprogress?.({ loaded: 4, total: 4, lengthComputable: true });
+    xhr.respond(200, "done");
+
+    expect((await pending).data).toBe("done");
+    expect(uploads.map((e) => [e.loaded, e.total, e.done])).toEqual([
+      [4, 10, false],
+      [10, 10, false],
+      [10, 10, true],
+    ]);
+    expect(downloads.map((e) => [e.loaded, e.total, e.done])).toEqual([
+      [2, 4, false],
+      [4, 4, false],
+      [4, 4, true],
+    ]);
+  });
+
+  it("should abort the XHR on cancellation and report network errors", async () => {
+    const cancelled = HttpClient.get("https://api.example.com/slow", { adapter: xhrAdapter, controlKey: "slow" }).catch((e) => e);
+    await tick();
+    const slow = FakeXHR.last;
+    HttpClient.cancelRequest("slow");
+    expect(await cancelled).toBeInstanceOf(CancelError);
+    expect(slow.aborted).toBe(true);
+
+    const failed = HttpClient.get("https://api.example.com/down", { adapter: xhrAdapter }).catch((e) => e);
+    await tick();
+    FakeXHR.last.onerror?.();
+    const err = await failed;
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.message).toBe("Network request failed");
+  });
+
+  it("should reject streamed request bodies with the XHR adapter", async () => {
+    const body = new ReadableStream({ start: (c) => c.close() });
+    await expect(
+      HttpClient.post("https://api.example.com/stream", body, { adapter: xhrAdapter })
+    ).rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it("should delegate to the global fetch by default", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => new Response("ok"));
+    const init = { method: "GET" };
+    await expect(fetchAdapter("https://api.example.com/x", init)).resolves.toBeInstanceOf(Response);
+    expect(fetchSpy).toHaveBeenCalledWith("https://api.example.com/x", init);
+    expect((await HttpClient.create({ adapter: fetchAdapter }).get("https://api.example.com/x")).data).toBe("ok");
+  });
+});
@@ -0,0 +1,207 @@
+import { CancelError, HttpClient, HttpStatusError } from "./index";
+import { jsonResponse, tick } from "./test-helpers";
+
+// fetch mock that answers 401 unless the request carries the expected token
+function tokenCheckingFetch(valid: () => string) {
+  return jest.spyOn(global as any, "fetch").mockImplementation(async (url: any, opts: any) => {
+    const ok = opts.headers.Authorization === `Bearer ${valid()}`;
+    return ok ? jsonResponse({ url }) : jsonResponse({ error: "expired" }, 401);
+  });
+}
+
+describe("Auth", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should inject the bearer token without overriding an explicit header", async () => {
+    const client = HttpClient.create({
+      auth: { getToken: () => "abc", refreshToken: jest.fn() },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}));
+
+    await client.get("/me");
+    await client.get("/me", { headers: { authorization: "Basic xyz" } });
+    await client.get("/public", { auth: false } as any);
+
+    const headers = fetchSpy.mock.calls.map(([, init]: any) => init.headers);
+    expect(headers[0].Authorization).toBe("Bearer abc");
+    expect(headers[1].authorization).toBe("Basic xyz");
+    expect(headers[1].Authorization).toBeUndefined();
+    expect(headers[2].Authorization).toBeUndefined();
+    expect((fetchSpy.mock.calls[0][1] as any).auth).toBeUndefined();
+  });
+
+  it("should support a custom header and scheme", async () => {
+    const client = HttpClient.create({
+      auth: { getToken: async () => "k-1", refreshToken: jest.fn(), header: "X-Api-Key", scheme: "" },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(jsonResponse({}));
+
+    await client.get("/me");
+    expect((fetchSpy.mock.calls[0][1] as any).headers["X-Api-Key"]).toBe("k-1");
+  });
+
+  it("should refresh once for concurrent 401s and replay every queued request", async () => {
+    let token = "old";
+    let release!: () => void;
+    const refreshToken = jest.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          release = () => {
+            token = "new";
+            resolve();
+          };
+        })
+    );
+    const client = HttpClient.create({ auth: { getToken: () => token, refreshToken } });
+    const fetchSpy = tokenCheckingFetch(() => (token === "old" ? "never" : token));
+
+    const calls = [client.get("/a"), client.get("/b"), client.post("/c", { x: 1 })];
+    await tick();
+    await tick();
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+
+    release();
+    const results = await Promise.all(calls);
+    expect(results.map((r) => r.status)).toEqual([200, 200, 200]);
+    expect(fetchSpy).toHaveBeenCalledTimes(6);
+    const replayed = fetchSpy.mock.calls.slice(3).map(([, init]: any) => init.headers.Authorization);
+    expect(replayed).toEqual(["Bearer new", "Bearer new", "Bearer new"]);
+    expect(JSON.parse((fetchSpy.mock.calls[5][1] as any).body)).toEqual({ x: 1 });
+  });
+
+  it("should not refresh again when the token already changed", async () => {
+    let token = "old";
+    const refreshToken = jest.fn();
+    const client = HttpClient.create({ auth: { getToken: () => token, refreshToken } });
+    jest.spyOn(global as any, "fetch").mockImplementation(async () => {
+      // Another tab refreshed the token while this request was in flight
+      const sentWithOld = token === "old";
+      token = "new";
+      return sentWithOld ? jsonResponse({}, 401) : jsonResponse({ ok: true });
+    });
+
+    const res = await client.get("/me");
+    expect(res.data).toEqual({ ok: true });
+    expect(refreshToken).not.toHaveBeenCalled();
+  });
+
+  it("should call onAuthFailure once and reject the queued requests with their 401", async () => {
+    const onAuthFailure = jest.fn();
+    const failure = new Error("refresh token expired");
+    const errorInterceptor = jest.fn((e) => e);
+    const client = HttpClient.create({
+      auth: { getToken: () => "old", refreshToken: jest.fn().mockRejectedValue(failure), onAuthFailure },
+    });
+    client.interceptors.error.use(errorInterceptor);
+    tokenCheckingFetch(() => "never");
+
+    const errors = await Promise.all([client.get("/a").catch((e) => e), client.get("/b").catch((e) => e)]);
+    errors.forEach((err) => {
+      expect(err).toBeInstanceOf(HttpStatusError);
+      expect(err.status).toBe(401);
+    });
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledWith(failure);
+    expect(errorInterceptor).toHaveBeenCalledTimes(2);
+  });
+
+  it("should replay only once and honour a custom shouldRefresh", async () => {
+    const refreshToken = jest.fn();
+    const client = HttpClient.create({
+      auth: { getToken: () => "t", refreshToken, shouldRefresh: (e) => e.status === 419 },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}, 419));
+
+    const err = await client.get("/session").catch((e) => e);
+    expect(err.status).toBe(419);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    fetchSpy.mockImplementation(async () => jsonResponse({}, 401));
+    await client.get("/other").catch((e) => e);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("should make new requests wait for a refresh in progress", async () => {
+    let token = "old";
+    let release!: () => void;
+    const client = HttpClient.create({
+      auth: {
+        getToken: () => token,
+        refreshToken: () =>
+          new Promise<void>((resolve) => {
+            release = () => {
+              token = "new";
+              resolve();
+            };
+          }),
+      },
+    });
+    const fetchSpy = tokenCheckingFetch(() => "new");
+
+    const first = client.get("/a");
+    await tick();
+    await tick();
+    const late = client.get("/b");
+    await tick();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    release();
+    await Promise.all([first, late]);
+    expect((fetchSpy.mock.calls[2][1] as any).headers.Authorization).toBe("Bearer new");
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should pass getToken failures to the error interceptors", async () => {
+    const failure = new Error("token store locked");
+    const client = HttpClient.create({ auth: { getToken: () => Promise.reject(failure), refreshToken: jest.fn() } });
+    const errorInterceptor = jest.fn((e) => e);
+    client.interceptors.error.use(errorInterceptor);
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+
+    await expect(client.get("/me")).rejects.toBe(failure);
+    expect(errorInterceptor).toHaveBeenCalledWith(failure);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should keep the controlKey registered through the refresh and the replay", async () => {
+    let token = "old";
+    let release!: () => void;
+    const client = HttpClient.create({
+      auth: {
+        getToken: () => token,
+        refreshToken: () =>
+          new Promise<void>((resolve) => {
+            release = () => {
+              token = "new";
+              resolve();
+            };
+          }),
+      },
+    });
+    const fetchSpy = tokenCheckingFetch(() => "new");
+
+    const pending = client.get("/a", { controlKey: "me" }).catch((e) => e);
+    await tick();
+    await tick();
+
+    HttpClient.cancelRequest("me");
+    const err = await pending;
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.controlKey).toBe("me");
+    release();
+    await tick();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // A replay that went through frees the key once it settles
+    token = "old";
+    const replayed = client.get("/c", { controlKey: "me" });
+    await tick();
+    await tick();
+    release();
+    expect((await replayed).status).toBe(200);
+    await expect(client.get("/d", { controlKey: "me" })).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,94 @@
+import type { HttpStatusError } from "./errors.js";
+
+/**
+ * Bearer-token authentication for an instance.
+ */
+export interface AuthConfig {
+  /**
+   * Returns the current access token. Requests are sent without one when it returns nothing.
+   */
+  getToken: () => string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * Obtains a new token (and stores it so `getToken` returns it). Runs once for any
+   * number of concurrent 401s. Requests it makes through the same client need `auth: false`.
+   */
+  refreshToken: () => unknown;
+  /**
+   * Called once when `refreshToken` fails, e.g. to log the user out. The queued requests then reject with their 401.
+   */
+  onAuthFailure?: (_error: unknown) => void | Promise<void>;
+  /**
+   * Decides which rejected responses trigger a refresh (default: status 401).
+   */
+  shouldRefresh?: (_error: HttpStatusError) => boolean;
+  /**
+   * Header that carries the token (default "Authorization").
+   */
+  header?: string;
+  /**
+   * Scheme placed before the token (default "Bearer"); use "" to send the bare token.
+   */
+  scheme?: string;
+}
+
+/**
+ * Injects tokens and coordinates a single in-flight refresh shared by every request of an instance.
+ */
+export class AuthManager {
+  private readonly config: AuthConfig;
+  private refreshing?: Promise<void>;
+
+  constructor(config: AuthConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Add the token header unless the request already sets one, waiting for a refresh in
+   * progress first. Returns the token that was used.
+   */
+  async authorize(headers: Record<string, string>): Promise<string | undefined> {
+    if (this.refreshing) {
+      await this.refreshing.catch(() => undefined);
+    }
+    const name = this.config.header ?? "Authorization";
+    if (Object.keys(headers).some((key) => key.toLowerCase() === name.toLowerCase())) {
+      return undefined;
+    }
+    const token = await this.config.getToken();
+    if (!token) return undefined;
+    const scheme = this.config.scheme ?? "Bearer";
+    headers[name] = scheme ? `${scheme} ${token}` : token;
+    return token;
+  }
+
+  shouldRefresh(error: HttpStatusError): boolean {
+    return this.config.shouldRefresh ? this.config.shouldRefresh(error) : error.status === 401;
+  }
+
+  /**
+   * Refresh the token, joining a refresh that is already running. Resolves once the request
+   * can be replayed and rejects when the refresh failed.
+   */
+  refresh(staleToken?: string): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh(staleToken).finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(staleToken?: string): Promise<void> {
+    // The token already changed since the request was sent: just replay it
+    if (staleToken !== undefined) {
+      const current = await this.config.getToken();
+      if (current && current !== staleToken) return;
+    }
+    try {
+      await this.config.refreshToken();
+    } catch (error) {
+      await this.config.onAuthFailure?.(error);
+      throw error;
+    }
+  }
+}
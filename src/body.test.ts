@@ -0,0 +1,115 @@
+import { HttpClient, serializeBody } from "./index";
+import { fakeResponse } from "./test-helpers";
+
+describe("serializeBody", () => {
+  it("should JSON-encode plain objects and set Content-Type", () => {
+    const headers: Record<string, string> = {};
+    expect(serializeBody({ a: 1 }, headers)).toBe('{"a":1}');
+    expect(headers["Content-Type"]).toBe("application/json");
+  });
+
+  it("should not override an existing Content-Type regardless of case", () => {
+    const headers: Record<string, string> = { "content-type": "application/vnd.api+json" };
+    serializeBody({ a: 1 }, headers);
+    expect(headers).toEqual({ "content-type": "application/vnd.api+json" });
+  });
+
+  it("should pass FormData through and drop any Content-Type", () => {
+    const form = new FormData();
+    form.append("file", "contents");
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    expect(serializeBody(form, headers)).toBe(form);
+    expect(headers["Content-Type"]).toBeUndefined();
+  });
+
+  it("should pass URLSearchParams through as form-urlencoded", () => {
+    const params = new URLSearchParams({ grant_type: "client_credentials" });
+    const headers: Record<string, string> = {};
+    expect(serializeBody(params, headers)).toBe(params);
+    expect(headers["Content-Type"]).toBe("application/x-www-form-urlencoded;charset=UTF-8");
+  });
+
+  it("should use the Blob type as Content-Type", () => {
+    const blob = new Blob(["<p/>"], { type: "text/html" });
+    const headers: Record<string, string> = {};
+    expect(serializeBody(blob, headers)).toBe(blob);
+    expect(headers["Content-Type"]).toBe("text/html");
+
+    const untyped: Record<string, string> = {};
+    serializeBody(new Blob(["x"]), untyped);
+    expect(untyped["Content-Type"]).toBeUndefined();
+  });
+
+  it("should send binary data as octet-stream", () => {
+    const buffer = new ArrayBuffer(4);
+    const bytes = new Uint8Array(4);
+    const headers: Record<string, string> = {};
+    expect(serializeBody(buffer, headers)).toBe(buffer);
+    expect(headers["Content-Type"]).toBe("application/octet-stream");
+    expect(serializeBody(bytes, {})).toBe(bytes);
+  });
+
+  it("should pass strings and streams through untouched", () => {
+    const headers: Record<string, string> = {};
+    expect(serializeBody('{"raw":true}', headers)).toBe('{"raw":true}');
+    const stream = new ReadableStream();
+    expect(serializeBody(stream, headers)).toBe(stream);
+    expect(headers).toEqual({});
+  });
+});
+
+describe("HttpClient body handling", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should post FormData without a Content-Type header", async () => {
+    const client = HttpClient.create({ headers: { "Content-Type": "application/json" } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+    const form = new FormData();
+
+    await client.post("/upload", form);
+    const opts = fetchSpy.mock.calls[0][1] as any;
+    expect(opts.body).toBe(form);
+    expect(opts.headers["Content-Type"]).toBeUndefined();
+  });
+
+  it("should mark stream bodies as half-duplex", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+    const stream = new ReadableStream();
+
+    await client.patch("/stream", stream);
+    const opts = fetchSpy.mock.calls[0][1] as any;
+    expect(opts.body).toBe(stream);
+    expect(opts.duplex).toBe("half");
+  });
+
+  it("should run instance then request transformers before serializing", async () => {
+    const order: string[] = [];
+    const client = HttpClient.create({
+      transformRequest: (data: any, headers) => {
+        order.push("instance");
+        headers["X-Encoded"] = "yes";
+        return { ...data, instance: true };
+      },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    await client.post("/transform", { a: 1 }, {
+      transformRequest: [
+        (data: any) => {
+          order.push("request");
+          return new URLSearchParams(data);
+        },
+      ],
+    } as any);
+
+    const opts = fetchSpy.mock.calls[0][1] as any;
+    expect(order).toEqual(["instance", "request"]);
+    expect(String(opts.body)).toBe("a=1&instance=true");
+    expect(opts.headers["X-Encoded"]).toBe("yes");
+    expect(opts.headers["Content-Type"]).toBe("application/x-www-form-urlencoded;charset=UTF-8");
+    expect(opts.transformRequest).toBeUndefined();
+  });
+});
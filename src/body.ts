@@ -0,0 +1,95 @@
+/**
+ * Request body transformer. Receives the body as it stands in the pipeline together
+ * with the outgoing headers (which it may modify) and returns the next body.
+ */
+export interface RequestTransformer {
+  (_data: unknown, _headers: Record<string, string>): unknown;
+}
+
+const JSON_CONTENT_TYPE = "application/json";
+const FORM_URLENCODED_CONTENT_TYPE = "application/x-www-form-urlencoded;charset=UTF-8";
+const OCTET_STREAM_CONTENT_TYPE = "application/octet-stream";
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).find((key) => key.toLowerCase() === lower);
+}
+
+function setDefaultContentType(headers: Record<string, string>, value: string): void {
+  if (!findHeader(headers, "Content-Type")) {
+    headers["Content-Type"] = value;
+  }
+}
+
+export function isFormData(body: unknown): body is FormData {
+  return typeof FormData !== "undefined" && body instanceof FormData;
+}
+
+export function isURLSearchParams(body: unknown): body is URLSearchParams {
+  return typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams;
+}
+
+export function isBlob(body: unknown): body is Blob {
+  return typeof Blob !== "undefined" && body instanceof Blob;
+}
+
+export function isBinary(body: unknown): body is ArrayBuffer | ArrayBufferView {
+  return body instanceof ArrayBuffer || ArrayBuffer.isView(body);
+}
+
+/**
+ * True for WHATWG ReadableStreams and Node.js readable streams.
+ */
+export function isStream(body: unknown): boolean {
+  if (!body || typeof body !== "object") return false;
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) return true;
+  return typeof (body as any).getReader === "function" || typeof (body as any).pipe === "function";
+}
+
+/**
+ * Turn a request body into something fetch can send and set a matching Content-Type
+ * when none was given:
+ * - FormData: sent as-is with no Content-Type, so the runtime adds the multipart boundary
+ * - URLSearchParams: sent as-is, `application/x-www-form-urlencoded`
+ * - Blob: sent as-is, Content-Type taken from `blob.type` when present
+ * - ArrayBuffer / typed arrays / DataView: sent as-is, `application/octet-stream`
+ * - streams and strings: sent as-is, Content-Type left to the caller or runtime
+ * - anything else: `JSON.stringify`, `application/json`
+ */
+export function serializeBody(body: unknown, headers: Record<string, string>): BodyInit {
+  if (isFormData(body)) {
+    const key = findHeader(headers, "Content-Type");
+    if (key) delete headers[key];
+    return body;
+  }
+  if (isURLSearchParams(body)) {
+    setDefaultContentType(headers, FORM_URLENCODED_CONTENT_TYPE);
+    return body;
+  }
+  if (isBlob(body)) {
+    if (body.type) setDefaultContentType(headers, body.type);
+    return body;
+  }
+  if (isBinary(body)) {
+    setDefaultContentType(headers, OCTET_STREAM_CONTENT_TYPE);
+    return body as BodyInit;
+  }
+  if (typeof body === "string" || isStream(body)) {
+    return body as BodyInit;
+  }
+  setDefaultContentType(headers, JSON_CONTENT_TYPE);
+  return JSON.stringify(body);
+}
+
+/**
+ * Run the body through each transformer in order.
+ */
+export function applyRequestTransformers(
+  body: unknown,
+  headers: Record<string, string>,
+  transformers?: RequestTransformer | RequestTransformer[]
+): unknown {
+  if (!transformers) return body;
+  const chain = Array.isArray(transformers) ? transformers : [transformers];
+  return chain.reduce((data, transform) => transform(data, headers), body);
+}
@@ -0,0 +1,128 @@
+import { CircuitOpenError, CircuitStateChange, HttpClient, HttpStatusError, isHttpClientError } from "./index";
+import { jsonResponse, tick } from "./test-helpers";
+
+describe("Circuit breaker", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should open once the failure rate crosses the threshold and fail fast without fetch", async () => {
+    const events: CircuitStateChange[] = [];
+    const client = HttpClient.create({
+      circuitBreaker: { minimumRequests: 4, windowSize: 4, failureThreshold: 0.5, onStateChange: (e) => events.push(e) },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async (url: any) =>
+      String(url).includes("/ok") ? jsonResponse({}) : jsonResponse({ error: "down" }, 503)
+    );
+
+    await client.get("https://orders.example.com/ok");
+    await client.get("https://orders.example.com/ok");
+    await client.get("https://orders.example.com/fail").catch(() => undefined);
+    expect(client.getCircuitState("https://orders.example.com")).toBe("closed");
+    const lastFailure = await client.get("https://orders.example.com/fail").catch((e) => e);
+    expect(lastFailure).toBeInstanceOf(HttpStatusError);
+    expect(client.getCircuitState("https://orders.example.com/anything")).toBe("open");
+    expect(events).toEqual([{ key: "https://orders.example.com", from: "closed", to: "open", failureRate: 0.5 }]);
+
+    const err = await client.get("https://orders.example.com/ok").catch((e) => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(isHttpClientError(err)).toBe(true);
+    expect(err.code).toBe("ERR_CIRCUIT_OPEN");
+    expect(err.circuitKey).toBe("https://orders.example.com");
+    expect(err.retryAfter).toBeGreaterThan(29000);
+    expect(err.config.url).toBe("https://orders.example.com/ok");
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+
+    // Other origins have their own circuit
+    await expect(client.get("https://users.example.com/ok")).resolves.toMatchObject({ status: 200 });
+  });
+
+  it("should let a single probe through after the open period and close on success", async () => {
+    jest.useFakeTimers();
+    const events: string[] = [];
+    const client = HttpClient.create({
+      circuitBreaker: {
+        minimumRequests: 1,
+        openDuration: 1000,
+        onStateChange: (e) => events.push(`${e.from}->${e.to}`),
+      },
+    });
+    let release!: (_res: Response) => void;
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockRejectedValueOnce(new TypeError("connect ECONNREFUSED"))
+      .mockImplementationOnce(() => new Promise((resolve) => (release = resolve)))
+      .mockResolvedValue(jsonResponse({ ok: true }));
+
+    await client.get("https://api.example.com/a").catch(() => undefined);
+    await expect(client.get("https://api.example.com/a")).rejects.toBeInstanceOf(CircuitOpenError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const probe = client.get("https://api.example.com/a");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(client.getCircuitState("https://api.example.com")).toBe("half-open");
+    const rejected = await client.get("https://api.example.com/b").catch((e) => e);
+    expect(rejected).toBeInstanceOf(CircuitOpenError);
+    expect(rejected.retryAfter).toBe(0);
+
+    release(jsonResponse({ ok: true }));
+    await probe;
+    expect(client.getCircuitState("https://api.example.com")).toBe("closed");
+    await client.get("https://api.example.com/b");
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(events).toEqual(["closed->open", "open->half-open", "half-open->closed"]);
+  });
+
+  it("should reopen when the probe fails", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ circuitBreaker: { minimumRequests: 1, openDuration: 500 } });
+    jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}, 500));
+
+    await client.get("https://api.example.com/x").catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(500);
+    const probeErr = await client.get("https://api.example.com/x").catch((e) => e);
+    expect(probeErr).toBeInstanceOf(HttpStatusError);
+    expect(client.getCircuitState("https://api.example.com")).toBe("open");
+    await expect(client.get("https://api.example.com/x")).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it("should stop retrying once the circuit opens", async () => {
+    const client = HttpClient.create({ circuitBreaker: { minimumRequests: 2 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}, 503));
+
+    const err = await client.get("https://api.example.com/flaky", {
+      retry: { retries: 5, baseDelay: 1, jitter: "none" },
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ignore cancellations and honour custom key and failure rules", async () => {
+    const client = HttpClient.create({
+      circuitBreaker: {
+        minimumRequests: 1,
+        key: (url) => new URL(url).pathname.split("/")[1],
+        isFailure: ({ response, error }) => !!error || response?.status === 429,
+      },
+    });
+    jest.spyOn(global as any, "fetch").mockImplementation((url: any, opts: any) => {
+      if (String(url).includes("slow")) {
+        return new Promise((_resolve, reject) => opts.signal.addEventListener("abort", () => reject(opts.signal.reason)));
+      }
+      return Promise.resolve(String(url).includes("busy") ? jsonResponse({}, 429) : jsonResponse({}, 500));
+    });
+
+    const slow = client.get("https://api.example.com/search/slow", { controlKey: "search" }).catch((e) => e);
+    await tick();
+    HttpClient.cancelRequest("search");
+    await slow;
+    expect(client.getCircuitState("https://api.example.com/search/other")).toBe("closed");
+
+    await client.get("https://api.example.com/reports/1").catch(() => undefined);
+    expect(client.getCircuitState("https://api.example.com/reports/2")).toBe("closed");
+
+    await client.get("https://api.example.com/billing/busy").catch(() => undefined);
+    expect(client.getCircuitState("https://api.example.com/billing/x")).toBe("open");
+    expect(client.getCircuitState("https://api.example.com/reports/1")).toBe("closed");
+  });
+});
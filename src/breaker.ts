@@ -0,0 +1,205 @@
+import { CircuitOpenError, isCancel } from "./errors.js";
+import type { HttpErrorConfig } from "./errors.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Result of one attempt, as seen by the breaker.
+ */
+export interface CircuitOutcome {
+  response?: Response;
+  error?: unknown;
+}
+
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  /**
+   * Failure rate over the window when the change happened (0 to 1).
+   */
+  failureRate: number;
+}
+
+/**
+ * Instance-level circuit breaker configuration.
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Failure rate (0 to 1) over the window that opens the circuit (default 0.5).
+   */
+  failureThreshold?: number;
+  /**
+   * Number of most recent attempts the failure rate is computed over (default 20).
+   */
+  windowSize?: number;
+  /**
+   * Attempts needed in the window before the circuit can open (default 10).
+   */
+  minimumRequests?: number;
+  /**
+   * How long the circuit stays open before letting probes through, in milliseconds (default 30000).
+   */
+  openDuration?: number;
+  /**
+   * Probe requests allowed while half-open; all of them must succeed to close the circuit (default 1).
+   */
+  halfOpenRequests?: number;
+  /**
+   * Groups requests into circuits (default: the URL's origin).
+   */
+  key?: (_url: string) => string;
+  /**
+   * Decides which attempts count as failures (default: network errors, timeouts and 5xx
+   * responses). Cancelled requests never count.
+   */
+  isFailure?: (_outcome: CircuitOutcome) => boolean;
+  /**
+   * Called on every state change, e.g. to feed a dashboard.
+   */
+  onStateChange?: (_event: CircuitStateChange) => void;
+}
+
+/**
+ * Reports how an attempt let through by `enter` ended.
+ */
+export type CircuitRecorder = (_outcome: CircuitOutcome) => void;
+
+interface Circuit {
+  state: CircuitState;
+  // true for failures, oldest first
+  outcomes: boolean[];
+  openedAt: number;
+  probes: number;
+  probeSuccesses: number;
+  // Bumped on every state change so late results from an earlier state are ignored
+  generation: number;
+}
+
+const DEFAULTS = {
+  failureThreshold: 0.5,
+  windowSize: 20,
+  minimumRequests: 10,
+  openDuration: 30000,
+  halfOpenRequests: 1,
+};
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function failureRate(circuit: Circuit): number {
+  if (circuit.outcomes.length === 0) return 0;
+  return circuit.outcomes.filter(Boolean).length / circuit.outcomes.length;
+}
+
+/**
+ * Per-key circuit breakers of an instance. A closed circuit lets everything through
+ * and tracks the failure rate; an open one rejects with CircuitOpenError until
+ * `openDuration` has passed; a half-open one lets a few probes decide between the two.
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig & typeof DEFAULTS;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = { ...DEFAULTS, ...config };
+  }
+
+  keyFor(url: string): string {
+    return this.config.key ? this.config.key(url) : originOf(url);
+  }
+
+  state(key: string): CircuitState {
+    return this.circuits.get(key)?.state ?? "closed";
+  }
+
+  /**
+   * Let an attempt through, or throw CircuitOpenError. The returned function must be
+   * called with the attempt's outcome.
+   */
+  enter(key: string, config?: HttpErrorConfig): CircuitRecorder {
+    const circuit = this.circuitFor(key);
+    const now = Date.now();
+    if (circuit.state === "open") {
+      const retryAfter = circuit.openedAt + this.config.openDuration - now;
+      if (retryAfter > 0) throw new CircuitOpenError(key, retryAfter, { config });
+      this.transition(key, circuit, "half-open");
+    }
+    const probe = circuit.state === "half-open";
+    if (probe) {
+      if (circuit.probes >= this.config.halfOpenRequests) throw new CircuitOpenError(key, 0, { config });
+      circuit.probes++;
+    }
+
+    const generation = circuit.generation;
+    let recorded = false;
+    return (outcome) => {
+      if (recorded) return;
+      recorded = true;
+      if (circuit.generation !== generation) return;
+      const failed = this.isFailure(outcome);
+      if (probe) circuit.probes--;
+      if (failed === undefined) return;
+      if (probe) {
+        this.recordProbe(key, circuit, failed);
+      } else {
+        this.record(key, circuit, failed);
+      }
+    };
+  }
+
+  private isFailure(outcome: CircuitOutcome): boolean | undefined {
+    if (outcome.error !== undefined && isCancel(outcome.error)) return undefined;
+    if (this.config.isFailure) return this.config.isFailure(outcome);
+    return outcome.error !== undefined || (outcome.response?.status ?? 0) >= 500;
+  }
+
+  private record(key: string, circuit: Circuit, failed: boolean): void {
+    circuit.outcomes.push(failed);
+    if (circuit.outcomes.length > this.config.windowSize) circuit.outcomes.shift();
+    if (
+      failed &&
+      circuit.outcomes.length >= this.config.minimumRequests &&
+      failureRate(circuit) >= this.config.failureThreshold
+    ) {
+      this.transition(key, circuit, "open");
+    }
+  }
+
+  private recordProbe(key: string, circuit: Circuit, failed: boolean): void {
+    if (failed) {
+      this.transition(key, circuit, "open");
+      return;
+    }
+    circuit.probeSuccesses++;
+    if (circuit.probeSuccesses >= this.config.halfOpenRequests) {
+      this.transition(key, circuit, "closed");
+    }
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    const rate = failureRate(circuit);
+    circuit.state = to;
+    circuit.generation++;
+    circuit.probes = 0;
+    circuit.probeSuccesses = 0;
+    if (to === "open") circuit.openedAt = Date.now();
+    if (to === "closed") circuit.outcomes = [];
+    this.config.onStateChange?.({ key, from, to, failureRate: rate });
+  }
+
+  private circuitFor(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: "closed", outcomes: [], openedAt: 0, probes: 0, probeSuccesses: 0, generation: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+}
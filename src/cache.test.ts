@@ -0,0 +1,238 @@
+import { HttpClient, MemoryCacheStore, parseCacheControl, CacheEntry } from "./index";
+import { jsonResponse } from "./test-helpers";
+
+function entry(key: string): CacheEntry {
+  return {
+    key,
+    url: key,
+    method: "GET",
+    data: key,
+    status: 200,
+    statusText: "OK",
+    headers: {},
+    storedAt: 0,
+    expiresAt: 0,
+    staleUntil: 0,
+  };
+}
+
+describe("Response cache", () => {
+  let now = 1_000_000;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should parse Cache-Control directives", () => {
+    expect(parseCacheControl('public, max-age=60, stale-while-revalidate=30, no-cache="set-cookie"')).toEqual({
+      public: true,
+      "max-age": "60",
+      "stale-while-revalidate": "30",
+      "no-cache": "set-cookie",
+    });
+    expect(parseCacheControl(null)).toEqual({});
+  });
+
+  it("should evict the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry("a"));
+    store.set("b", entry("b"));
+    store.get("a");
+    store.set("c", entry("c"));
+    expect(store.keys()).toEqual(["a", "c"]);
+    store.delete("a");
+    store.clear();
+    expect(store.keys()).toEqual([]);
+  });
+
+  it("should serve fresh responses from the cache using max-age", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", responseCache: true });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }, 200, { "cache-control": "max-age=60" }));
+
+    const first = await client.get("/me");
+    const second = await client.get("/me");
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(first.fromCache).toBeUndefined();
+    expect(second.fromCache).toBe(true);
+    expect(second.data).toEqual({ id: 1 });
+    expect(second.status).toBe(200);
+    expect(second.headers["cache-control"]).toBe("max-age=60");
+  });
+
+  it("should keep separate entries per responseType and Authorization", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", responseCache: true });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async (_u: any, init: any) =>
+      jsonResponse({ user: new Headers(init.headers).get("authorization") }, 200, { "cache-control": "max-age=60" })
+    );
+
+    expect((await client.get("/file")).data).toEqual({ user: null });
+    expect((await client.get("/file", { responseType: "text" })).data).toBe('{"user":null}');
+    expect((await client.get("/file", { headers: { Authorization: "Bearer ada" } })).data).toEqual({ user: "Bearer ada" });
+    expect((await client.get("/file", { headers: { Authorization: "Bearer bob" } })).data).toEqual({ user: "Bearer bob" });
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+
+    const hit = await client.get("/file", { headers: { Authorization: "Bearer ada" } });
+    expect(hit.fromCache).toBe(true);
+    expect(hit.data).toEqual({ user: "Bearer ada" });
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+  });
+
+  it("should only answer requests matching the headers listed in Vary", async () => {
+    const client = HttpClient.create({ responseCache: true });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async (u: any, init: any) =>
+      jsonResponse(
+        { lang: new Headers(init.headers).get("accept-language") },
+        200,
+        { "cache-control": "max-age=60", vary: String(u).includes("any") ? "*" : "Accept-Language" }
+      )
+    );
+
+    await client.get("/i18n", { headers: { "Accept-Language": "de" } });
+    const german = await client.get("/i18n", { headers: { "accept-language": "de" } });
+    expect(german.fromCache).toBe(true);
+    const french = await client.get("/i18n", { headers: { "Accept-Language": "fr" } });
+    expect(french.fromCache).toBeUndefined();
+    expect(french.data).toEqual({ lang: "fr" });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    // Vary: * never matches
+    await client.get("/any");
+    expect((await client.get("/any")).fromCache).toBeUndefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+  });
+
+  it("should not let callers mutate cached data", async () => {
+    const client = HttpClient.create({ responseCache: { ttl: 1000 } });
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+    const first = await client.get<{ id: number }>("/item");
+    first.data.id = 99;
+    const second = await client.get<{ id: number }>("/item");
+    expect(second.data.id).toBe(1);
+  });
+
+  it("should bypass the cache for non-GET requests, opted-out requests and no-store responses", async () => {
+    const client = HttpClient.create({ responseCache: { ttl: 60000 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await client.post("/things", { a: 1 });
+    await client.post("/things", { a: 1 });
+    await client.get("/things", { responseCache: false } as any);
+    await client.get("/things", { responseCache: false } as any);
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+
+    fetchSpy.mockImplementation(async () => jsonResponse({ ok: true }, 200, { "cache-control": "no-store" }));
+    await client.get("/secret");
+    await client.get("/secret");
+    expect(fetchSpy).toHaveBeenCalledTimes(6);
+  });
+
+  it("should revalidate stale entries with If-None-Match and answer 304s from the cache", async () => {
+    const client = HttpClient.create({ responseCache: true });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ v: 1 }, 200, { etag: '"abc"', "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT" }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { "cache-control": "max-age=10" } }));
+
+    await client.get("/doc");
+    const res = await client.get("/doc");
+
+    const headers = (fetchSpy.mock.calls[1][1] as any).headers;
+    expect(headers["If-None-Match"]).toBe('"abc"');
+    expect(headers["If-Modified-Since"]).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(res.status).toBe(200);
+    expect(res.fromCache).toBe(true);
+    expect(res.data).toEqual({ v: 1 });
+    expect(res.config.attempt).toBe(1);
+
+    // The 304's max-age made the entry fresh again
+    await client.get("/doc");
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should honour per-request ttl and revalidate options", async () => {
+    const client = HttpClient.create({ responseCache: true });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await client.get("/ttl", { responseCache: { ttl: 5000 } } as any);
+    now += 4000;
+    await client.get("/ttl");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await client.get("/ttl", { responseCache: { revalidate: true } } as any);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    now += 10000;
+    await client.get("/ttl");
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should serve stale data while revalidating in the background", async () => {
+    const client = HttpClient.create({ responseCache: { ttl: 1000, staleWhileRevalidate: 5000 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ v: 1 }))
+      .mockResolvedValueOnce(jsonResponse({ v: 2 }));
+
+    await client.get("/feed");
+    now += 2000;
+
+    const stale = await client.get("/feed");
+    expect(stale.data).toEqual({ v: 1 });
+    expect(stale.fromCache).toBe(true);
+
+    // Let the background refresh settle
+    await new Promise((r) => globalThis.setImmediate(r));
+    await new Promise((r) => globalThis.setImmediate(r));
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    const fresh = await client.get("/feed");
+    expect(fresh.data).toEqual({ v: 2 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate entries by pattern", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", responseCache: { ttl: 60000 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await client.get("/users/1");
+    await client.get("/users/2");
+    await client.get("/posts/1");
+
+    expect(await client.invalidateCache("/users/*")).toBe(2);
+    expect(await client.invalidateCache(/posts/)).toBe(1);
+
+    await client.get("/users/1");
+    await client.get("/posts/1");
+    expect(fetchSpy).toHaveBeenCalledTimes(5);
+
+    await client.clearCache();
+    await client.get("/users/1");
+    expect(fetchSpy).toHaveBeenCalledTimes(6);
+
+    expect(await HttpClient.create().invalidateCache("*")).toBe(0);
+  });
+
+  it("should use a custom store and key function", async () => {
+    const data = new Map<string, CacheEntry>();
+    const store = {
+      get: async (k: string) => data.get(k),
+      set: async (k: string, e: CacheEntry) => void data.set(k, e),
+      delete: async (k: string) => void data.delete(k),
+      keys: async () => Array.from(data.keys()),
+      clear: async () => data.clear(),
+    };
+    const client = HttpClient.create({
+      responseCache: { store, ttl: 1000, key: ({ url, headers }) => `${url}|${headers["Accept-Language"] ?? ""}` },
+    });
+    jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await client.get("/i18n", { headers: { "Accept-Language": "de" } });
+    expect(Array.from(data.keys())).toEqual(["/i18n|de"]);
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * A cached response. Entries are plain JSON-friendly objects so that storage
+ * adapters backed by localStorage, IndexedDB or files can persist them as-is.
+ */
+export interface CacheEntry {
+  key: string;
+  url: string;
+  method: string;
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /**
+   * Epoch milliseconds when the entry was stored or last revalidated.
+   */
+  storedAt: number;
+  /**
+   * Epoch milliseconds until which the entry may be served without contacting the server.
+   */
+  expiresAt: number;
+  /**
+   * Epoch milliseconds until which a stale entry may still be served while it is revalidated in the background.
+   */
+  staleUntil: number;
+  etag?: string;
+  lastModified?: string;
+  /**
+   * Request header values (by lowercased name) for the headers listed in the response's `Vary`.
+   * The entry only answers requests that send the same values.
+   */
+  vary?: Record<string, string>;
+}
+
+/**
+ * Storage adapter contract. Methods may be synchronous or return promises.
+ */
+export interface CacheStore {
+  get(_key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(_key: string, _entry: CacheEntry): void | Promise<void>;
+  delete(_key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Instance-level cache configuration.
+ */
+export interface CacheConfig {
+  /**
+   * Storage adapter (default: an in-memory LRU store with 100 entries).
+   */
+  store?: CacheStore;
+  /**
+   * Freshness lifetime in ms used when the response has no Cache-Control max-age or Expires (default 0).
+   */
+  ttl?: number;
+  /**
+   * How long in ms a stale entry may be served while it is revalidated in the background (default 0).
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Header names that take part in the default key (default Accept and Authorization).
+   */
+  headers?: string[];
+  /**
+   * Builds the cache key for a request; replaces the default `method + url + responseType + selected headers` key.
+   */
+  key?: (_request: { method: string; url: string; headers: Record<string, string> }) => string;
+}
+
+/**
+ * Per-request cache options. Pass `responseCache: false` to bypass the cache for one call.
+ */
+export interface CacheRequestOptions {
+  /**
+   * Freshness lifetime in ms for this response; overrides Cache-Control and the instance ttl.
+   */
+  ttl?: number;
+  /**
+   * Stale-while-revalidate window in ms for this response.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Skip fresh and stale hits and always revalidate with the server.
+   */
+  revalidate?: boolean;
+}
+
+/**
+ * In-memory LRU store. The least recently read or written entry is evicted once `maxEntries` is exceeded.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Parse a Cache-Control header into a directive map. Directives without a value map to `true`.
+ */
+export function parseCacheControl(header: string | null | undefined): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  if (!header) return directives;
+  header.split(",").forEach((part) => {
+    const [name, ...rest] = part.trim().split("=");
+    if (!name) return;
+    const value = rest.join("=").trim().replace(/^"|"$/g, "");
+    directives[name.toLowerCase()] = value === "" ? true : value;
+  });
+  return directives;
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const n = parseInt(value, 10);
+  return isNaN(n) ? undefined : n * 1000;
+}
+
+const DEFAULT_KEY_HEADERS = ["accept", "authorization"];
+
+function lowercaseKeys(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+// Values of the request headers named by a Vary header; undefined for `Vary: *`, which matches nothing
+function varyValues(vary: string | undefined, requestHeaders: Record<string, string>): Record<string, string> | undefined {
+  const names = (vary ?? "").split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (names.includes("*")) return undefined;
+  const headers = lowercaseKeys(requestHeaders);
+  return Object.fromEntries(names.map((name) => [name, headers[name] ?? ""]));
+}
+
+// Turn a string with `*` wildcards into an anchored RegExp
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+// Strip the origin so patterns like "/users/*" match absolute URLs
+function pathOf(url: string): string {
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, "");
+}
+
+/**
+ * Response cache used by an HttpClient instance. Decides freshness from the
+ * request options, Cache-Control / Expires headers and the instance defaults.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private readonly config: CacheConfig;
+
+  constructor(config: CacheConfig = {}) {
+    this.config = config;
+    this.store = config.store ?? new MemoryCacheStore();
+  }
+
+  /**
+   * Key for a request. `variant` tells apart requests reading the body differently (the responseType).
+   */
+  keyFor(method: string, url: string, headers: Record<string, string>, variant = ""): string {
+    if (this.config.key) return this.config.key({ method, url, headers });
+
+    const selected = (this.config.headers ?? DEFAULT_KEY_HEADERS).map((h) => h.toLowerCase());
+    const keyHeaders = Object.keys(headers)
+      .filter((name) => selected.includes(name.toLowerCase()))
+      .map((name) => `${name.toLowerCase()}=${headers[name]}`)
+      .sort();
+    return [method, url, variant, ...keyHeaders].join("\n");
+  }
+
+  /**
+   * Entry for a key. With `requestHeaders`, an entry whose `Vary` headers differ is not returned.
+   */
+  async get(key: string, requestHeaders?: Record<string, string>): Promise<CacheEntry | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry?.vary || !requestHeaders) return entry;
+    const headers = lowercaseKeys(requestHeaders);
+    return Object.entries(entry.vary).every(([name, value]) => (headers[name] ?? "") === value) ? entry : undefined;
+  }
+
+  isFresh(entry: CacheEntry, now = Date.now()): boolean {
+    return now < entry.expiresAt;
+  }
+
+  canServeStale(entry: CacheEntry, now = Date.now()): boolean {
+    return now < entry.staleUntil;
+  }
+
+  /**
+   * Conditional request headers for revalidating an entry.
+   */
+  validatorsFor(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers["If-None-Match"] = entry.etag;
+    if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Store a response, or drop any existing entry when the response must not be cached.
+   * `requestHeaders` are those of the request, kept for the headers the response varies on.
+   * Returns the stored entry, if any.
+   */
+  async save(
+    key: string,
+    response: Pick<CacheEntry, "url" | "method" | "data" | "status" | "statusText" | "headers" | "vary">,
+    options: CacheRequestOptions = {},
+    requestHeaders?: Record<string, string>
+  ): Promise<CacheEntry | undefined> {
+    const directives = parseCacheControl(response.headers["cache-control"]);
+    const vary = requestHeaders ? varyValues(response.headers["vary"], requestHeaders) : response.vary;
+    if (directives["no-store"] || (requestHeaders && !vary)) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    const now = Date.now();
+    let ttl = options.ttl;
+    if (ttl === undefined) {
+      if (directives["no-cache"]) {
+        ttl = 0;
+      } else {
+        ttl = seconds(directives["max-age"]);
+        if (ttl === undefined && response.headers["expires"]) {
+          const expires = Date.parse(response.headers["expires"]);
+          if (!isNaN(expires)) ttl = Math.max(0, expires - now);
+        }
+      }
+    }
+    ttl = ttl ?? this.config.ttl ?? 0;
+    const swr = options.staleWhileRevalidate
+      ?? seconds(directives["stale-while-revalidate"])
+      ?? this.config.staleWhileRevalidate
+      ?? 0;
+
+    const etag = response.headers["etag"];
+    const lastModified = response.headers["last-modified"];
+    // Nothing to serve and nothing to revalidate with: not worth keeping
+    if (ttl <= 0 && swr <= 0 && !etag && !lastModified) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    const entry: CacheEntry = {
+      key,
+      ...response,
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + swr,
+      etag,
+      lastModified,
+    };
+    if (vary && Object.keys(vary).length > 0) entry.vary = vary;
+    else delete entry.vary;
+    await this.store.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Refresh an entry after a 304 Not Modified, merging in the new response headers.
+   */
+  async refresh(entry: CacheEntry, headers: Record<string, string>, options: CacheRequestOptions = {}): Promise<CacheEntry> {
+    const updated = await this.save(entry.key, { ...entry, headers: { ...entry.headers, ...headers } }, options);
+    return updated ?? entry;
+  }
+
+  /**
+   * Remove entries whose URL matches the pattern. Strings may contain `*` wildcards and
+   * are matched against the full URL and against its path; RegExps are tested against the full URL.
+   * Returns the number of removed entries.
+   */
+  async invalidate(urlPattern: string | RegExp): Promise<number> {
+    const matcher = typeof urlPattern === "string" ? globToRegExp(urlPattern) : urlPattern;
+    let removed = 0;
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key);
+      if (!entry) continue;
+      const hit = typeof urlPattern === "string"
+        ? matcher.test(entry.url) || matcher.test(pathOf(entry.url))
+        : matcher.test(entry.url);
+      if (hit) {
+        await this.store.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
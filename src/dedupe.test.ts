@@ -0,0 +1,150 @@
+import { CancelError, HttpClient, TimeoutError } from "./index";
+import { deferredFetch, jsonResponse, tick } from "./test-helpers";
+
+describe("In-flight deduplication", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    HttpClient.cancelAllRequests();
+  });
+
+  it("should share one fetch between concurrent identical GETs", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", dedupe: true });
+    const { spy, pending } = deferredFetch();
+
+    const calls = [client.get("/me"), client.get("/me"), client.get("/me")];
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    pending[0].resolve(jsonResponse({ id: 1 }));
+    const results = await Promise.all(calls);
+    results.forEach((res) => expect(res.data).toEqual({ id: 1 }));
+    expect(results[0].data).not.toBe(results[1].data);
+    expect(client["inFlight"]?.size).toBe(0);
+  });
+
+  it("should hand every caller its own copy to transform", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    const { pending } = deferredFetch();
+    // Changes the data in place
+    const bump = (data: any) => {
+      data.n++;
+      return data;
+    };
+
+    const calls = [client.get("/count", { transformResponse: bump }), client.get("/count", { transformResponse: bump })];
+    await tick();
+    pending[0].resolve(jsonResponse({ n: 1 }));
+
+    const results = await Promise.all(calls);
+    expect(results.map((res) => res.data)).toEqual([{ n: 2 }, { n: 2 }]);
+  });
+
+  it("should not share requests without dedupe, across keys or after opting out", async () => {
+    const plain = HttpClient.create();
+    const { spy, pending } = deferredFetch();
+
+    const a = plain.get("/me", { controlKey: "a" } as any);
+    const b = plain.get("/me", { controlKey: "b" } as any);
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    const client = HttpClient.create({ dedupe: true });
+    const c = client.get("/me", { params: { page: 1 } } as any);
+    const d = client.get("/me", { params: { page: 2 } } as any);
+    const e = client.get("/me", { headers: { Authorization: "Bearer other" } });
+    const f = client.get("/me", { params: { page: 1 }, dedupe: false } as any);
+    const g = client.post("/me", { x: 1 });
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(7);
+
+    pending.forEach((p) => p.resolve(jsonResponse({ ok: true })));
+    await Promise.all([a, b, c, d, e, f, g]);
+  });
+
+  it("should support a custom key function", async () => {
+    const client = HttpClient.create({ dedupe: { key: ({ url }) => url.split("?")[0] } });
+    const { spy, pending } = deferredFetch();
+
+    const a = client.get("/search", { params: { q: "a" } } as any);
+    const b = client.get("/search", { params: { q: "b" } } as any);
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(1);
+    pending[0].resolve(jsonResponse([]));
+    await Promise.all([a, b]);
+  });
+
+  it("should keep the shared request alive when one caller cancels", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    const { spy, pending } = deferredFetch();
+
+    const cancelled = client.get("/report", { controlKey: "first" } as any).catch((e) => e);
+    const kept = client.get("/report", { controlKey: "second" } as any);
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    HttpClient.cancelRequest("first");
+    const err = await cancelled;
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.controlKey).toBe("first");
+    expect(pending[0].signal.aborted).toBe(false);
+
+    pending[0].resolve(jsonResponse({ rows: 3 }));
+    expect((await kept).data).toEqual({ rows: 3 });
+  });
+
+  it("should abort the shared request once every caller has cancelled", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    const { pending } = deferredFetch();
+
+    const a = client.get("/slow", { controlKey: "x" } as any).catch((e) => e);
+    const b = client.get("/slow", { controlKey: "y" } as any).catch((e) => e);
+    await tick();
+
+    HttpClient.cancelRequest("x");
+    HttpClient.cancelRequest("y");
+    await Promise.all([a, b]);
+    expect(pending[0].signal.aborted).toBe(true);
+    expect(client["inFlight"]?.size).toBe(0);
+  });
+
+  it("should apply each caller's timeout to that caller only", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    const { spy, pending } = deferredFetch();
+
+    const hurried = client.get("/me", { timeout: 50 }).catch((e) => e);
+    const patient = client.get("/me");
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    expect(await hurried).toBeInstanceOf(TimeoutError);
+    expect(pending[0].signal.aborted).toBe(false);
+    pending[0].resolve(jsonResponse({ id: 1 }));
+    expect((await patient).data).toEqual({ id: 1 });
+  });
+
+  it("should not share requests with their own adapter, status check or progress callbacks", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    const { spy, pending } = deferredFetch();
+
+    const requests = [
+      client.get("/me"),
+      client.get("/me", { validateStatus: () => true }),
+      client.get("/me", { onDownloadProgress: () => undefined }),
+    ];
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(3);
+    pending.forEach(({ resolve }) => resolve(jsonResponse({})));
+    await Promise.all(requests);
+  });
+
+  it("should reject every caller when the shared request fails", async () => {
+    const client = HttpClient.create({ dedupe: true });
+    jest.spyOn(global as any, "fetch").mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    const results = await Promise.all([
+      client.get("/down").catch((e) => e),
+      client.get("/down").catch((e) => e),
+    ]);
+    results.forEach((err) => expect(err.message).toBe("fetch failed"));
+  });
+});
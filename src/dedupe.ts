@@ -0,0 +1,137 @@
+import { CancelError } from "./errors.js";
+
+/**
+ * Instance-level configuration for collapsing concurrent identical requests.
+ */
+export interface DedupeConfig {
+  /**
+   * Methods eligible for deduplication (default GET and HEAD).
+   */
+  methods?: string[];
+  /**
+   * Header names that take part in the default key (default Accept and Authorization).
+   */
+  headers?: string[];
+  /**
+   * Builds the deduplication key; replaces the default `method + url + selected headers` key.
+   */
+  key?: (_request: { method: string; url: string; headers: Record<string, string> }) => string;
+}
+
+interface InFlightEntry<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  callers: number;
+}
+
+const DEFAULT_METHODS = ["GET", "HEAD"];
+const DEFAULT_KEY_HEADERS = ["accept", "authorization"];
+
+/**
+ * Registry of shared in-flight requests. Every caller joining an entry keeps its own
+ * cancellation signal; the underlying request is only aborted once all callers have left.
+ */
+export class InFlightRequests {
+  private readonly entries = new Map<string, InFlightEntry<unknown>>();
+  private readonly config: DedupeConfig;
+
+  constructor(config: DedupeConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Key for a request, or undefined when the method is not eligible.
+   */
+  keyFor(method: string, url: string, headers: Record<string, string>, variant = ""): string | undefined {
+    const methods = (this.config.methods ?? DEFAULT_METHODS).map((m) => m.toUpperCase());
+    if (!methods.includes(method)) return undefined;
+    if (this.config.key) return this.config.key({ method, url, headers });
+
+    const selected = (this.config.headers ?? DEFAULT_KEY_HEADERS).map((h) => h.toLowerCase());
+    const keyHeaders = Object.keys(headers)
+      .filter((name) => selected.includes(name.toLowerCase()))
+      .map((name) => `${name.toLowerCase()}=${headers[name]}`)
+      .sort();
+    return [method, url, variant, ...keyHeaders].join("\n");
+  }
+
+  /**
+   * Number of distinct requests currently in flight.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Join the in-flight request for `key`, starting it with `perform` if there is none.
+   * `perform` receives the signal of the shared request. The returned promise rejects
+   * as soon as one of `signals` (the caller's own cancellation) aborts, or with
+   * `onTimeout()` once the caller's own `timeout` has passed. The shared request has no
+   * timeout of its own; it is aborted when its last caller leaves.
+   */
+  join<T>(
+    key: string,
+    perform: (_signal: AbortSignal) => Promise<T>,
+    signals: (AbortSignal | undefined)[],
+    timeout?: number,
+    onTimeout: () => unknown = () => new CancelError()
+  ): Promise<T> {
+    let entry = this.entries.get(key) as InFlightEntry<T> | undefined;
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightEntry<T> = { promise: perform(controller.signal), controller, callers: 0 };
+      this.entries.set(key, created);
+      const remove = () => {
+        if (this.entries.get(key) === created) this.entries.delete(key);
+      };
+      created.promise.then(remove, remove);
+      entry = created;
+    }
+
+    const shared = entry;
+    const linked = signals.filter((s): s is AbortSignal => !!s);
+    shared.callers++;
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
+      const leave = () => {
+        settled = true;
+        if (timeoutId) globalThis.clearTimeout(timeoutId);
+        linked.forEach((signal) => signal.removeEventListener("abort", onAbort));
+        shared.callers--;
+      };
+      const quit = (reason: unknown) => {
+        if (settled) return;
+        leave();
+        // Last caller gone: nobody needs the response any more
+        if (shared.callers === 0) {
+          shared.controller.abort();
+          if (this.entries.get(key) === shared) this.entries.delete(key);
+        }
+        reject(reason);
+      };
+      const onAbort = () => quit(linked.find((signal) => signal.aborted)?.reason ?? new CancelError());
+
+      if (linked.some((signal) => signal.aborted)) {
+        onAbort();
+        return;
+      }
+      linked.forEach((signal) => signal.addEventListener("abort", onAbort, { once: true }));
+      if (typeof timeout === "number" && timeout > 0) {
+        timeoutId = globalThis.setTimeout(() => quit(onTimeout()), timeout);
+      }
+      shared.promise.then(
+        (value) => {
+          if (settled) return;
+          leave();
+          resolve(value);
+        },
+        (error) => {
+          if (settled) return;
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  CancelError,
+  ConfigError,
+  HttpClient,
+  HttpClientError,
+  HttpStatusError,
+  NetworkError,
+  ParseError,
+  TimeoutError,
+  isCancel,
+  isHttpClientError,
+} from "./index";
+import { jsonResponse } from "./test-helpers";
+
+// fetch mock that never settles unless its signal aborts
+function hangingFetch() {
+  return (jest.spyOn(global as any, "fetch") as any).mockImplementation((_u: string, opts: any) => {
+    return new Promise((_resolve, reject) => {
+      opts.signal.addEventListener("abort", () => reject(opts.signal.reason));
+    });
+  });
+}
+
+describe("Error hierarchy", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should reject error statuses with an HttpStatusError", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com" });
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(jsonResponse({ error: "missing" }, 404));
+
+    const err = await client.get("/users/9").catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err).toBeInstanceOf(HttpClientError);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe("HttpStatusError");
+    expect(err.code).toBe("ERR_BAD_STATUS");
+    expect(err.status).toBe(404);
+    expect(err.response.data).toEqual({ error: "missing" });
+    expect(err.config.url).toBe("https://api.example.com/users/9");
+    expect(err.config.method).toBe("GET");
+    expect(err.request).toBe(err.response.request);
+  });
+
+  it("should wrap fetch failures in a NetworkError", async () => {
+    const cause = new TypeError("fetch failed");
+    jest.spyOn(global as any, "fetch").mockRejectedValueOnce(cause);
+
+    const err = await HttpClient.post("https://api.example.com/things", { a: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.code).toBe("ERR_NETWORK");
+    expect(err.message).toBe("fetch failed");
+    expect(err.cause).toBe(cause);
+    expect(err.config.method).toBe("POST");
+    expect(err.response).toBeUndefined();
+  });
+
+  it("should report timeouts as TimeoutError", async () => {
+    jest.useFakeTimers();
+    hangingFetch();
+
+    const p = HttpClient.get("https://api.example.com/slow", { timeout: 50 } as any).catch((e) => e);
+    await jest.advanceTimersByTimeAsync(60);
+    const err = await p;
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.code).toBe("ERR_TIMEOUT");
+    expect(err.timeout).toBe(50);
+    expect(err.message).toBe("Request timed out after 50ms");
+    expect(isCancel(err)).toBe(false);
+  });
+
+  it("should report cancellation as CancelError carrying the controlKey", async () => {
+    const client = HttpClient.create();
+    hangingFetch();
+
+    const keyed = client.get("/a", { controlKey: "job-1" } as any).catch((e) => e);
+    const anonymous = client.get("/b").catch((e) => e);
+    await new Promise((r) => globalThis.setImmediate(r));
+
+    HttpClient.cancelRequest("job-1");
+    const keyedErr = await keyed;
+    expect(keyedErr).toBeInstanceOf(CancelError);
+    expect(keyedErr.code).toBe("ERR_CANCELED");
+    expect(keyedErr.controlKey).toBe("job-1");
+    expect(keyedErr.config.url).toBe("/a");
+
+    HttpClient.cancelAllRequests();
+    const anonymousErr = await anonymous;
+    expect(isCancel(anonymousErr)).toBe(true);
+    expect(anonymousErr.controlKey).toBeUndefined();
+    expect(anonymousErr).not.toBe(keyedErr);
+  });
+
+  it("should treat an aborted user signal as cancellation", async () => {
+    hangingFetch();
+    const controller = new AbortController();
+
+    const p = HttpClient.get("https://api.example.com/x", { signal: controller.signal }).catch((e) => e);
+    await new Promise((r) => globalThis.setImmediate(r));
+    controller.abort("user left");
+
+    const err = await p;
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.cause).toBe("user left");
+  });
+
+  it("should raise ParseError for malformed JSON with an explicit json responseType", async () => {
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(
+      new Response("{oops", { headers: { "content-type": "application/json" } })
+    );
+
+    const err = await HttpClient.get("https://api.example.com/bad", { responseType: "json" } as any).catch((e) => e);
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.rawBody).toBe("{oops");
+    expect(err.cause.name).toBe("SyntaxError");
+    expect(err.response.status).toBe(200);
+  });
+
+  it("should raise ConfigError for a duplicate controlKey or missing fetch", async () => {
+    const client = HttpClient.create();
+    hangingFetch();
+    const first = client.get("/a", { controlKey: "dup" } as any).catch((e) => e);
+    await new Promise((r) => globalThis.setImmediate(r));
+
+    const dup = await client.get("/a", { controlKey: "dup" } as any).catch((e) => e);
+    expect(dup).toBeInstanceOf(ConfigError);
+    expect(dup.code).toBe("ERR_CONFIG");
+    HttpClient.cancelRequest("dup");
+    await first;
+
+    const originalFetch = global.fetch;
+    (global as any).fetch = undefined;
+    try {
+      await expect(HttpClient.get("/x")).rejects.toBeInstanceOf(ConfigError);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  it("should hand typed errors to the error interceptors", async () => {
+    const client = HttpClient.create();
+    const seen: string[] = [];
+    client.interceptors.error.use((error) => {
+      seen.push(`${error.name}:${error.code}`);
+      return error;
+    });
+    jest.spyOn(global as any, "fetch")
+      .mockRejectedValueOnce(new TypeError("offline"))
+      .mockResolvedValueOnce(jsonResponse({}, 500));
+
+    await client.get("/one").catch(() => undefined);
+    await client.get("/two").catch(() => undefined);
+    expect(seen).toEqual(["NetworkError:ERR_NETWORK", "HttpStatusError:ERR_BAD_STATUS"]);
+  });
+
+  it("should recognise client errors with the type guards", () => {
+    const foreign = { isHttpClientError: true, code: "ERR_CANCELED", message: "from another bundle" };
+    expect(isHttpClientError(new NetworkError("down"))).toBe(true);
+    expect(isHttpClientError(foreign)).toBe(true);
+    expect(isHttpClientError(new Error("plain"))).toBe(false);
+    expect(isHttpClientError(null)).toBe(false);
+    expect(isCancel(new CancelError())).toBe(true);
+    expect(isCancel(foreign)).toBe(true);
+    expect(isCancel(new TimeoutError(10))).toBe(false);
+    expect(new CancelError().message).toBe("Request was cancelled");
+  });
+});
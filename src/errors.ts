@@ -0,0 +1,283 @@
+import type { HttpClientResponse } from "./index.js";
+
+/**
+ * Machine-readable error codes, one per failure kind.
+ */
+export type HttpErrorCode =
+  | "ERR_BAD_STATUS"
+  | "ERR_BAD_RESPONSE"
+  | "ERR_NETWORK"
+  | "ERR_TIMEOUT"
+  | "ERR_CANCELED"
+  | "ERR_PARSE"
+  | "ERR_CONFIG"
+  | "ERR_CIRCUIT_OPEN"
+  | "ERR_VALIDATION"
+  | "ERR_GRAPHQL";
+
+/**
+ * The request as it was sent (same shape as `HttpClientResponse.config`).
+ */
+export type HttpErrorConfig = HttpClientResponse["config"];
+
+export interface HttpErrorDetails<T = unknown> {
+  config?: HttpErrorConfig;
+  request?: Response;
+  response?: HttpClientResponse<T>;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by the client. `response` is set whenever a
+ * response was received; `request` is the underlying fetch `Response` (matching
+ * `HttpClientResponse.request`); `cause` holds the original error, if any.
+ */
+export class HttpClientError<T = unknown> extends Error {
+  readonly isHttpClientError = true;
+  code: HttpErrorCode;
+  config?: HttpErrorConfig;
+  request?: Response;
+  response?: HttpClientResponse<T>;
+  cause?: unknown;
+
+  constructor(message: string, code: HttpErrorCode, details: HttpErrorDetails<T> = {}) {
+    super(message);
+    this.name = "HttpClientError";
+    this.code = code;
+    this.config = details.config ?? details.response?.config;
+    this.request = details.request ?? details.response?.request;
+    this.response = details.response;
+    if (details.cause !== undefined) this.cause = details.cause;
+  }
+}
+
+/**
+ * The server answered with a status outside the 2xx range.
+ */
+export class HttpStatusError<T = unknown> extends HttpClientError<T> {
+  response: HttpClientResponse<T>;
+
+  constructor(response: HttpClientResponse<T>, details: Omit<HttpErrorDetails<T>, "response"> = {}) {
+    super(`Request failed with status code ${response.status}`, "ERR_BAD_STATUS", { ...details, response });
+    this.name = "HttpStatusError";
+    this.response = response;
+  }
+
+  get status(): number {
+    return this.response.status;
+  }
+}
+
+/**
+ * RFC 9457 problem details, the body of an `application/problem+json` response.
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * A rejected status whose body is RFC 9457 problem details. `type` defaults to "about:blank";
+ * members beyond the standard ones are collected in `extensions`. `status` stays the HTTP status.
+ */
+export class ProblemDetailsError<T extends ProblemDetails = ProblemDetails> extends HttpStatusError<T> {
+  type: string;
+  title?: string;
+  detail?: string;
+  instance?: string;
+  extensions: Record<string, unknown>;
+
+  constructor(response: HttpClientResponse<T>, details: Omit<HttpErrorDetails<T>, "response"> = {}) {
+    super(response, details);
+    // Members of the wrong type are ignored, as the RFC asks
+    const text = (value: unknown) => (typeof value === "string" ? value : undefined);
+    const { type, title, status: _status, detail, instance, ...extensions } = response.data;
+    this.name = "ProblemDetailsError";
+    this.type = text(type) ?? "about:blank";
+    this.title = text(title);
+    this.detail = text(detail);
+    this.instance = text(instance);
+    this.extensions = extensions;
+    const summary = this.detail ?? this.title;
+    if (summary) this.message = `${this.message}: ${summary}`;
+  }
+}
+
+/**
+ * The request never got a response (DNS failure, refused connection, CORS, offline...).
+ */
+export class NetworkError extends HttpClientError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, "ERR_NETWORK", details);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The request did not complete within its `timeout`.
+ */
+export class TimeoutError extends HttpClientError {
+  timeout: number;
+
+  constructor(timeout: number, details: HttpErrorDetails = {}) {
+    super(`Request timed out after ${timeout}ms`, "ERR_TIMEOUT", details);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The request was cancelled through `cancelRequest`, `cancelAllRequests` or its `signal`.
+ */
+export class CancelError extends HttpClientError {
+  controlKey?: string;
+
+  constructor(message = "Request was cancelled", details: HttpErrorDetails & { controlKey?: string } = {}) {
+    super(message, "ERR_CANCELED", details);
+    this.name = "CancelError";
+    this.controlKey = details.controlKey;
+  }
+}
+
+/**
+ * The response body could not be parsed. `rawBody` holds the unparsed text when available.
+ */
+export class ParseError<T = unknown> extends HttpClientError<T> {
+  rawBody?: string;
+
+  constructor(message: string, details: HttpErrorDetails<T> & { rawBody?: string } = {}) {
+    super(message, "ERR_PARSE", details);
+    this.name = "ParseError";
+    this.rawBody = details.rawBody;
+  }
+}
+
+/**
+ * The client or request is misconfigured (missing fetch, duplicate controlKey...).
+ */
+export class ConfigError extends HttpClientError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, "ERR_CONFIG", details);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * The circuit breaker for this request's origin is open, so the request was not sent.
+ * `retryAfter` is the number of milliseconds until it lets a probe request through.
+ */
+export class CircuitOpenError extends HttpClientError {
+  circuitKey: string;
+  retryAfter: number;
+
+  constructor(circuitKey: string, retryAfter: number, details: HttpErrorDetails = {}) {
+    super(`Circuit for ${circuitKey} is open`, "ERR_CIRCUIT_OPEN", details);
+    this.name = "CircuitOpenError";
+    this.circuitKey = circuitKey;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Location of a value inside the response data: property names and array indexes.
+ */
+export type ValidationPath = Array<string | number>;
+
+export interface ValidationIssue {
+  path: ValidationPath;
+  message: string;
+}
+
+/**
+ * Render a path the way it would be written in code, e.g. `items[0].id`.
+ */
+export function formatValidationPath(path: ValidationPath): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((segment, i) => (typeof segment === "number" ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join("");
+}
+
+/**
+ * The response data did not match the request's `schema`. `issues` lists every failure,
+ * `path` is where the first one happened and `response` holds the unvalidated response.
+ */
+export class ValidationError<T = unknown> extends HttpClientError<T> {
+  issues: ValidationIssue[];
+  path: ValidationPath;
+  response: HttpClientResponse<T>;
+
+  constructor(
+    issues: ValidationIssue[],
+    details: Omit<HttpErrorDetails<T>, "response"> & { response: HttpClientResponse<T> }
+  ) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(
+      `Response validation failed at ${formatValidationPath(first?.path ?? [])}: ${first?.message ?? "Invalid value"}${more}`,
+      "ERR_VALIDATION",
+      details
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.path = first?.path ?? [];
+    this.response = details.response;
+  }
+}
+
+/**
+ * One entry of a GraphQL result's `errors` array.
+ */
+export interface GraphQLErrorEntry {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * The GraphQL result carried `errors`, even though the HTTP request succeeded. `data` is the
+ * partial data the server returned alongside them, if any; `response` is the HTTP response.
+ */
+export class GraphQLError<TData = unknown> extends HttpClientError {
+  errors: GraphQLErrorEntry[];
+  data?: TData | null;
+  operationName?: string;
+  response: HttpClientResponse;
+
+  constructor(
+    errors: GraphQLErrorEntry[],
+    details: Omit<HttpErrorDetails, "response"> & { response: HttpClientResponse; data?: TData | null; operationName?: string }
+  ) {
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : "";
+    const operation = details.operationName ? ` ${details.operationName}` : "";
+    super(`GraphQL operation${operation} failed: ${first?.message ?? "Unknown error"}${more}`, "ERR_GRAPHQL", details);
+    this.name = "GraphQLError";
+    this.errors = errors;
+    this.data = details.data;
+    this.operationName = details.operationName;
+    this.response = details.response;
+  }
+}
+
+/**
+ * True for any error raised by the client, including across bundle copies of the library.
+ */
+export function isHttpClientError(error: unknown): error is HttpClientError {
+  return (
+    error instanceof HttpClientError ||
+    (typeof error === "object" && error !== null && (error as { isHttpClientError?: unknown }).isHttpClientError === true)
+  );
+}
+
+/**
+ * True when the request was cancelled rather than failed.
+ */
+export function isCancel(error: unknown): error is CancelError {
+  return isHttpClientError(error) && error.code === "ERR_CANCELED";
+}
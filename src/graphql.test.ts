@@ -0,0 +1,183 @@
+import { createHash } from "crypto";
+import { ConfigError, GraphQLError, HttpClient, HttpStatusError, MockAdapter } from "./index";
+import type { MockRequest, TypedGraphQLDocument } from "./index";
+import { tick } from "./test-helpers";
+
+const USER_QUERY = "query GetUser($id: ID!) { user(id: $id) { id name } }";
+
+// Shape of GraphQL Code Generator's TypedDocumentString
+class TypedDocumentString<TData, TVariables> extends String implements TypedGraphQLDocument<TData, TVariables> {
+  declare readonly __apiType?: (_variables: TVariables) => TData;
+}
+
+// A tiny GraphQL server: answers `user` queries and keeps the persisted queries it was sent
+function graphQLServer(options: { persisted?: boolean } = {}) {
+  const stored = new Map<string, string>();
+  const execute = (body: any) => {
+    let query: string | undefined = body.query;
+    const hash = body.extensions?.persistedQuery?.sha256Hash;
+    if (hash) {
+      if (!options.persisted) return { errors: [{ message: "PersistedQueryNotSupported" }] };
+      if (query) stored.set(hash, query);
+      query = stored.get(hash);
+      if (!query) return { errors: [{ message: "PersistedQueryNotFound", extensions: { code: "PERSISTED_QUERY_NOT_FOUND" } }] };
+    }
+    if (body.variables?.id === "missing") {
+      return { data: { user: null }, errors: [{ message: "User not found", path: ["user"] }] };
+    }
+    return { data: { user: { id: body.variables?.id, name: `User ${body.variables?.id}` } }, extensions: { cost: 1 } };
+  };
+  return ({ body }: MockRequest) => ({ data: Array.isArray(body) ? body.map(execute) : execute(body) });
+}
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+describe("GraphQL", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should send the operation with variables and operationName through the instance", async () => {
+    mock.onPost("/graphql").reply(graphQLServer());
+    const api = HttpClient.create({ baseURL: "https://api.example.com", headers: { "X-App": "web" }, adapter: mock.adapter });
+    api.interceptors.request.use((config) => ({ ...config, headers: { ...config.headers, "X-Trace": "t-1" } }));
+
+    const res = await api.graphql<{ user: { id: string; name: string } }>(USER_QUERY, { id: "7" });
+
+    expect(res.status).toBe(200);
+    expect(res.data.user.name).toBe("User 7");
+    expect(res.extensions).toEqual({ cost: 1 });
+    const [request] = mock.history;
+    expect(request.url).toBe("https://api.example.com/graphql");
+    expect(request.body).toEqual({ operationName: "GetUser", variables: { id: "7" }, query: USER_QUERY });
+    expect(request.headers["x-app"]).toBe("web");
+    expect(request.headers["x-trace"]).toBe("t-1");
+  });
+
+  it("should infer types from typed documents and reject documents without source", async () => {
+    mock.onPost("https://gql.example.com/api").reply(graphQLServer());
+    const GetUser = new TypedDocumentString<{ user: { name: string } }, { id: string }>(USER_QUERY);
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { endpoint: "https://gql.example.com/api" } });
+
+    const res = await api.graphql(GetUser, { id: "3" });
+    const name: string = res.data.user.name;
+    expect(name).toBe("User 3");
+    expect(mock.history[0].body).toMatchObject({ query: USER_QUERY });
+
+    const parsed = { kind: "Document", definitions: [] } as TypedGraphQLDocument;
+    await expect(api.graphql(parsed)).rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it("should reject results carrying errors with a GraphQLError, even with status 200", async () => {
+    mock.onPost("/graphql").reply(graphQLServer());
+    const api = HttpClient.create({ adapter: mock.adapter });
+    const seen = jest.fn((e) => e);
+    api.interceptors.error.use(seen);
+
+    const err = await api.graphql(USER_QUERY, { id: "missing" }).catch((e) => e);
+    expect(err).toBeInstanceOf(GraphQLError);
+    expect(err.code).toBe("ERR_GRAPHQL");
+    expect(err.message).toBe("GraphQL operation GetUser failed: User not found");
+    expect(err.errors).toEqual([{ message: "User not found", path: ["user"] }]);
+    expect(err.data).toEqual({ user: null });
+    expect(err.operationName).toBe("GetUser");
+    expect(err.response.status).toBe(200);
+    expect(seen).toHaveBeenCalledWith(err);
+
+    mock.onPost("/broken").reply(502, "Bad Gateway");
+    await expect(api.graphql(USER_QUERY, { id: "1" }, { endpoint: "/broken" })).rejects.toBeInstanceOf(HttpStatusError);
+    mock.onPost("/html").reply(200, "<html></html>");
+    const notGraphQL = await api.graphql(USER_QUERY, { id: "1" }, { endpoint: "/html" }).catch((e) => e);
+    expect(notGraphQL.message).toBe("GraphQL operation GetUser failed: The response is not a GraphQL result");
+  });
+
+  it("should send persisted query hashes first and the full query once when the server asks", async () => {
+    mock.onPost("/graphql").reply(graphQLServer({ persisted: true }));
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { persistedQueries: true } });
+    const persistedQuery = { version: 1, sha256Hash: sha256(USER_QUERY) };
+
+    expect((await api.graphql(USER_QUERY, { id: "1" })).data).toEqual({ user: { id: "1", name: "User 1" } });
+    expect((await api.graphql(USER_QUERY, { id: "2" })).data).toEqual({ user: { id: "2", name: "User 2" } });
+
+    expect(mock.history.map((r) => r.body)).toEqual([
+      { operationName: "GetUser", variables: { id: "1" }, extensions: { persistedQuery } },
+      { operationName: "GetUser", variables: { id: "1" }, query: USER_QUERY, extensions: { persistedQuery } },
+      { operationName: "GetUser", variables: { id: "2" }, extensions: { persistedQuery } },
+    ]);
+  });
+
+  it("should stop hashing when the server does not support persisted queries", async () => {
+    mock.onPost("/graphql").reply(graphQLServer());
+    const hash = jest.fn(() => "custom-hash");
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { persistedQueries: { hash } } });
+
+    await api.graphql(USER_QUERY, { id: "1" });
+    await api.graphql(USER_QUERY, { id: "2" });
+
+    expect(mock.history.map((r) => (r.body as any).extensions?.persistedQuery?.sha256Hash ?? null)).toEqual([
+      "custom-hash",
+      null,
+      null,
+    ]);
+    expect(hash).toHaveBeenCalledTimes(1);
+  });
+
+  it("should batch operations issued in the same tick into one request", async () => {
+    mock.onPost("/graphql").reply(graphQLServer());
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { batch: { maxBatchSize: 2 } } });
+
+    const results = await Promise.allSettled([
+      api.graphql(USER_QUERY, { id: "1" }),
+      api.graphql(USER_QUERY, { id: "missing" }),
+      api.graphql(USER_QUERY, { id: "3" }),
+      api.graphql(USER_QUERY, { id: "4" }, { headers: { "X-Alone": "1" } }),
+    ]);
+
+    expect(results.map((r) => (r.status === "fulfilled" ? (r.value.data as any).user.id : r.reason.constructor.name))).toEqual([
+      "1",
+      "GraphQLError",
+      "3",
+      "4",
+    ]);
+    const bodies = mock.history.map((r) => r.body as any);
+    expect(bodies).toHaveLength(3);
+    // The operation with its own options went out straight away, the rest as batches of two
+    expect(bodies[0].variables).toEqual({ id: "4" });
+    expect(bodies[1].map((b: any) => b.variables.id)).toEqual(["1", "missing"]);
+    expect(bodies[2].variables).toEqual({ id: "3" });
+  });
+
+  it("should batch persisted queries and resend only the unknown ones", async () => {
+    mock.onPost("/graphql").reply(graphQLServer({ persisted: true }));
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { batch: true, persistedQueries: true } });
+    const other = "query Other($id: ID!) { user(id: $id) { id } }";
+
+    await api.graphql(USER_QUERY, { id: "0" });
+    mock.resetHistory();
+    const [first, second] = await Promise.all([api.graphql(USER_QUERY, { id: "1" }), api.graphql(other, { id: "2" })]);
+
+    expect(first.data).toEqual({ user: { id: "1", name: "User 1" } });
+    expect(second.data).toEqual({ user: { id: "2", name: "User 2" } });
+    const bodies = mock.history.map((r) => r.body as any[]);
+    expect(bodies.map((batch) => batch.map((b) => !!b.query))).toEqual([[false, false], [true]]);
+    expect(bodies[1][0].operationName).toBe("Other");
+  });
+
+  it("should fail every batched operation when the batch request fails", async () => {
+    mock.onPost("/graphql").networkError();
+    const api = HttpClient.create({ adapter: mock.adapter, graphql: { batch: true } });
+
+    const pending = [api.graphql(USER_QUERY, { id: "1" }).catch((e) => e), api.graphql(USER_QUERY, { id: "2" }).catch((e) => e)];
+    await tick();
+    const errors = await Promise.all(pending);
+    expect(errors.map((e) => e.code)).toEqual(["ERR_NETWORK", "ERR_NETWORK"]);
+    expect(mock.history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,291 @@
+import { ConfigError, GraphQLError } from "./errors.js";
+import type { GraphQLErrorEntry } from "./errors.js";
+import type { ExtendedRequestInit, HttpClientResponse } from "./index.js";
+
+export type GraphQLVariables = Record<string, unknown>;
+
+/**
+ * A document carrying its result and variable types, such as GraphQL Code Generator's
+ * `TypedDocumentString`, or a `TypedDocumentNode` that kept its source (graphql-tag does).
+ */
+export interface TypedGraphQLDocument<TData = unknown, TVariables = GraphQLVariables> {
+  readonly __apiType?: (_variables: TVariables) => TData;
+  readonly loc?: { readonly source: { readonly body: string } };
+  toString(): string;
+}
+
+/**
+ * A query string, or a typed document whose types `graphql()` infers.
+ */
+export type GraphQLDocument<TData = unknown, TVariables = GraphQLVariables> =
+  | string
+  | TypedGraphQLDocument<TData, TVariables>;
+
+export interface PersistedQueriesConfig {
+  /**
+   * Hex SHA-256 digest of a query (default: Web Crypto). Needed where `crypto.subtle` is
+   * missing, such as Node 18 or pages not served over HTTPS.
+   */
+  hash?: (_query: string) => string | Promise<string>;
+}
+
+export interface GraphQLBatchConfig {
+  /**
+   * Most operations sent in one request; larger batches are split (default 10).
+   */
+  maxBatchSize?: number;
+  /**
+   * Milliseconds to keep collecting operations after the first one (default 0: the same tick).
+   */
+  wait?: number;
+}
+
+/**
+ * GraphQL settings of an instance.
+ */
+export interface GraphQLConfig {
+  /**
+   * URL of the GraphQL endpoint, relative to `baseURL` (default "/graphql").
+   */
+  endpoint?: string;
+  /**
+   * Automatic persisted queries: send only the query's SHA-256 hash and add the full query
+   * when the server does not know it yet (default false).
+   */
+  persistedQueries?: boolean | PersistedQueriesConfig;
+  /**
+   * Send operations issued together as one request with a JSON array body (default false).
+   */
+  batch?: boolean | GraphQLBatchConfig;
+}
+
+export interface GraphQLRequestOptions
+  extends Omit<ExtendedRequestInit, "method" | "body" | "data" | "schema" | "jsonApi" | "responseType"> {
+  /**
+   * Operation to run when the document holds several (default: the document's only named operation).
+   */
+  operationName?: string;
+  /**
+   * Endpoint for this operation, overriding the instance's.
+   */
+  endpoint?: string;
+  /**
+   * Set to false to send this operation on its own. Operations with request options of their
+   * own (headers, controlKey, timeout...) are never batched.
+   */
+  batch?: boolean;
+}
+
+/**
+ * The HTTP response of an operation with `data` set to the GraphQL result data.
+ */
+export interface GraphQLResponse<TData = unknown> extends HttpClientResponse<TData> {
+  extensions?: Record<string, unknown>;
+}
+
+interface GraphQLResult {
+  data?: unknown;
+  errors?: GraphQLErrorEntry[];
+  extensions?: Record<string, unknown>;
+}
+
+interface Operation {
+  query: string;
+  variables?: GraphQLVariables;
+  operationName?: string;
+  // Started when the operation is issued so batching never waits on it
+  hash?: Promise<string>;
+}
+
+interface Exchange {
+  response: HttpClientResponse;
+  result: GraphQLResult;
+}
+
+interface QueuedOperation {
+  operation: Operation;
+  resolve: (_response: GraphQLResponse<any>) => void;
+  reject: (_error: unknown) => void;
+}
+
+type GraphQLSender = (_endpoint: string, _body: unknown, _options: ExtendedRequestInit) => Promise<HttpClientResponse>;
+type GraphQLFailure = (_error: GraphQLError) => Promise<never>;
+
+// Apollo's codes and messages for a hash the server has not stored, or persisted queries being off
+const PERSISTED_QUERY_MISSES = ["PERSISTED_QUERY_NOT_FOUND", "PersistedQueryNotFound"];
+const PERSISTED_QUERY_UNSUPPORTED = ["PERSISTED_QUERY_NOT_SUPPORTED", "PersistedQueryNotSupported"];
+
+function hasError(result: GraphQLResult, codes: string[]): boolean {
+  return !!result.errors?.some((error) => codes.includes(String(error.extensions?.code)) || codes.includes(error.message));
+}
+
+function sourceOf(document: GraphQLDocument<unknown, never>): string {
+  if (typeof document === "string") return document;
+  if (document.loc?.source.body) return document.loc.source.body;
+  if ("definitions" in document) {
+    throw new ConfigError("This DocumentNode has no source text; pass the query as a string or a TypedDocumentString.");
+  }
+  return document.toString();
+}
+
+function operationNameOf(query: string): string | undefined {
+  const names = [...query.matchAll(/\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/g)];
+  return names.length === 1 ? names[0][1] : undefined;
+}
+
+async function sha256(text: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ConfigError("Persisted queries need Web Crypto (crypto.subtle); provide persistedQueries.hash instead.");
+  }
+  const digest = await subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function toResult(payload: unknown): GraphQLResult {
+  if (payload && typeof payload === "object" && ("data" in payload || "errors" in payload)) {
+    return payload as GraphQLResult;
+  }
+  return { errors: [{ message: "The response is not a GraphQL result" }] };
+}
+
+// A server that rejects the whole batch answers with one result; it stands for every operation
+function toResults(payload: unknown, count: number): GraphQLResult[] {
+  if (Array.isArray(payload) && payload.length === count) return payload.map(toResult);
+  const shared = Array.isArray(payload)
+    ? { errors: [{ message: `Expected ${count} results for the batch, got ${payload.length}` }] }
+    : toResult(payload);
+  return Array.from({ length: count }, () => shared);
+}
+
+/**
+ * Sends the GraphQL operations of an instance: persisted query hashes, batching and result errors.
+ */
+export class GraphQLExecutor {
+  private readonly endpoint: string;
+  private readonly batch?: Required<GraphQLBatchConfig>;
+  // Dropped once the server says it does not support persisted queries
+  private persisted?: PersistedQueriesConfig;
+  private readonly hashes = new Map<string, Promise<string>>();
+  private readonly queues = new Map<string, QueuedOperation[]>();
+  private readonly send: GraphQLSender;
+  private readonly fail: GraphQLFailure;
+
+  constructor(config: GraphQLConfig, send: GraphQLSender, fail: GraphQLFailure) {
+    this.endpoint = config.endpoint ?? "/graphql";
+    if (config.batch) {
+      const batch = config.batch === true ? {} : config.batch;
+      this.batch = { maxBatchSize: batch.maxBatchSize ?? 10, wait: batch.wait ?? 0 };
+    }
+    if (config.persistedQueries) {
+      this.persisted = config.persistedQueries === true ? {} : config.persistedQueries;
+    }
+    this.send = send;
+    this.fail = fail;
+  }
+
+  execute<TData>(
+    document: GraphQLDocument<TData, never>,
+    variables?: GraphQLVariables,
+    options: GraphQLRequestOptions = {}
+  ): Promise<GraphQLResponse<TData>> {
+    const { operationName, endpoint = this.endpoint, batch, ...init } = options;
+    let operation: Operation;
+    try {
+      const query = sourceOf(document);
+      operation = { query, variables, operationName: operationName ?? operationNameOf(query) };
+      if (this.persisted) operation.hash = this.hashOf(query);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (this.batch && batch !== false && Object.keys(init).length === 0) {
+      return new Promise((resolve, reject) => this.enqueue(endpoint, { operation, resolve, reject }));
+    }
+    return this.exchange(endpoint, [operation], init, false).then(([exchange]) => this.settle(operation, exchange));
+  }
+
+  private hashOf(query: string): Promise<string> {
+    let hash = this.hashes.get(query);
+    if (!hash) {
+      const custom = this.persisted?.hash;
+      hash = custom ? Promise.resolve().then(() => custom(query)) : sha256(query);
+      this.hashes.set(query, hash);
+    }
+    return hash;
+  }
+
+  private enqueue(endpoint: string, queued: QueuedOperation): void {
+    const queue = this.queues.get(endpoint);
+    if (queue) {
+      queue.push(queued);
+      return;
+    }
+    this.queues.set(endpoint, [queued]);
+    globalThis.setTimeout(() => this.flush(endpoint), this.batch!.wait);
+  }
+
+  private flush(endpoint: string): void {
+    const queue = this.queues.get(endpoint) ?? [];
+    this.queues.delete(endpoint);
+    const size = this.batch!.maxBatchSize;
+    for (let start = 0; start < queue.length; start += size) {
+      const chunk = queue.slice(start, start + size);
+      // A lone operation goes out as a normal request
+      this.exchange(endpoint, chunk.map((queued) => queued.operation), {}, chunk.length > 1).then(
+        (exchanges) => {
+          chunk.forEach(({ operation, resolve, reject }, i) => this.settle(operation, exchanges[i]).then(resolve, reject));
+        },
+        (error) => chunk.forEach(({ reject }) => reject(error))
+      );
+    }
+  }
+
+  /**
+   * Send operations, as a batch or a single one, and pair each with its result. Operations
+   * whose hash the server does not know are sent again with their query.
+   */
+  private async exchange(
+    endpoint: string,
+    operations: Operation[],
+    init: ExtendedRequestInit,
+    batched: boolean,
+    withQuery = false
+  ): Promise<Exchange[]> {
+    const hashes = await Promise.all(operations.map((operation) => (this.persisted ? operation.hash : undefined)));
+    const bodies = operations.map((operation, i) => ({
+      operationName: operation.operationName,
+      variables: operation.variables,
+      query: withQuery || !hashes[i] ? operation.query : undefined,
+      extensions: hashes[i] ? { persistedQuery: { version: 1, sha256Hash: hashes[i] } } : undefined,
+    }));
+    const response = await this.send(endpoint, batched ? bodies : bodies[0], init);
+    const exchanges = toResults(batched ? response.data : [response.data], operations.length).map((result) => ({
+      response,
+      result,
+    }));
+    if (withQuery) return exchanges;
+
+    const misses = exchanges.flatMap(({ result }, i) =>
+      hashes[i] && (hasError(result, PERSISTED_QUERY_MISSES) || hasError(result, PERSISTED_QUERY_UNSUPPORTED)) ? [i] : []
+    );
+    if (misses.length === 0) return exchanges;
+    if (misses.some((i) => hasError(exchanges[i].result, PERSISTED_QUERY_UNSUPPORTED))) this.persisted = undefined;
+    const retried = await this.exchange(endpoint, misses.map((i) => operations[i]), init, batched, true);
+    misses.forEach((index, i) => (exchanges[index] = retried[i]));
+    return exchanges;
+  }
+
+  private async settle<TData>(operation: Operation, { response, result }: Exchange): Promise<GraphQLResponse<TData>> {
+    if (result.errors?.length) {
+      return this.fail(
+        new GraphQLError<TData>(result.errors, {
+          response,
+          data: result.data as TData | null | undefined,
+          operationName: operation.operationName,
+        })
+      );
+    }
+    return { ...response, data: result.data as TData, extensions: result.extensions };
+  }
+}
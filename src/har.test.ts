@@ -0,0 +1,146 @@
+import { ConfigError, HarLog, HarRecorder, HarReplayer, HttpClient, MockAdapter } from "./index";
+
+// Records a small scenario against a MockAdapter standing in for the network
+async function recordScenario(recorder: HarRecorder) {
+  const api = HttpClient.create({ baseURL: "https://api.example.com", adapter: recorder.adapter });
+  await api.get("/orders", { params: { page: 1 } });
+  await api.post("/orders", { sku: "A1" });
+  await api.get("/orders/7/invoice.pdf", { responseType: "arrayBuffer" });
+  return api;
+}
+
+function backend() {
+  const mock = new MockAdapter();
+  let created = 0;
+  mock.onGet("/orders").reply(200, [{ id: 1 }], { "set-cookie": "session=abc" });
+  mock.onPost("/orders").reply(() => ({ status: 201, data: { id: ++created } }));
+  mock.onGet("/orders/7/invoice.pdf").reply(200, new Uint8Array([37, 80, 68, 70, 0, 255]), {
+    "content-type": "application/pdf",
+  });
+  return mock;
+}
+
+describe("HAR recording and replay", () => {
+  afterEach(() => {
+    (HttpClient as any).globalHeaders = {};
+    jest.restoreAllMocks();
+  });
+
+  it("should record request/response pairs as HAR 1.2 with redacted secrets", async () => {
+    const mock = backend();
+    const recorder = new HarRecorder({ adapter: mock.adapter });
+    HttpClient.setHeader("Authorization", "Bearer live-secret");
+
+    await recordScenario(recorder);
+    const har = await recorder.toHAR();
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries).toHaveLength(3);
+    const [list, create, pdf] = har.log.entries;
+
+    expect(list.request).toMatchObject({
+      method: "GET",
+      url: "https://api.example.com/orders?page=1",
+      queryString: [{ name: "page", value: "1" }],
+    });
+    expect(list.request.headers).toContainEqual({ name: "authorization", value: "[REDACTED]" });
+    expect(JSON.stringify(har)).not.toContain("live-secret");
+    expect(list.response.headers).toContainEqual({ name: "set-cookie", value: "[REDACTED]" });
+    expect(list.response.content).toMatchObject({ mimeType: "application/json", text: '[{"id":1}]' });
+    expect(new Date(list.startedDateTime).getTime()).not.toBeNaN();
+
+    expect(create.request.postData).toEqual({ mimeType: "application/json", text: '{"sku":"A1"}' });
+    expect(create.response.status).toBe(201);
+
+    expect(pdf.response.content).toMatchObject({ mimeType: "application/pdf", size: 6, encoding: "base64", text: "JVBERgD/" });
+  });
+
+  it("should let a redact hook scrub entries and keep headers when asked", async () => {
+    const mock = new MockAdapter();
+    mock.onAny().reply(200, { token: "secret-token" });
+    const recorder = new HarRecorder({
+      adapter: mock.adapter,
+      redactHeaders: [],
+      redact: (entry) => {
+        entry.request.url = entry.request.url.replace(/api_key=[^&]+/, "api_key=xxx");
+        entry.response.content.text = entry.response.content.text?.replace("secret-token", "xxx");
+      },
+    });
+    const api = HttpClient.create({ adapter: recorder.adapter, headers: { Authorization: "Basic kept" } });
+
+    await api.get("https://maps.example.com/geo?api_key=abc123");
+    const [entry] = (await recorder.toHAR()).log.entries;
+
+    expect(entry.request.url).toBe("https://maps.example.com/geo?api_key=xxx");
+    expect(entry.response.content.text).toBe('{"token":"xxx"}');
+    expect(entry.request.headers).toContainEqual({ name: "authorization", value: "Basic kept" });
+
+    recorder.clear();
+    expect((await recorder.toHAR()).log.entries).toHaveLength(0);
+  });
+
+  it("should replay a recording offline", async () => {
+    const recorder = new HarRecorder({ adapter: backend().adapter });
+    await recordScenario(recorder);
+    await recordScenario(recorder);
+    const har: HarLog = JSON.parse(JSON.stringify(await recorder.toHAR()));
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+
+    const replayer = new HarReplayer(har);
+    const api = HttpClient.create({ baseURL: "https://api.example.com", adapter: replayer.adapter });
+
+    expect((await api.get("/orders", { params: { page: 1 } })).data).toEqual([{ id: 1 }]);
+    // Identical requests get the recorded responses in order, then the last one again
+    expect((await api.post("/orders", { sku: "A1" })).data).toEqual({ id: 1 });
+    expect((await api.post("/orders", { sku: "A1" })).data).toEqual({ id: 2 });
+    expect((await api.post("/orders", { sku: "A1" })).data).toEqual({ id: 2 });
+
+    const pdf = await api.get<ArrayBuffer>("/orders/7/invoice.pdf", { responseType: "arrayBuffer" });
+    expect(Array.from(new Uint8Array(pdf.data))).toEqual([37, 80, 68, 70, 0, 255]);
+
+    const unmatched = await api.get("/orders", { params: { page: 2 } }).catch((e) => e);
+    expect(unmatched).toBeInstanceOf(ConfigError);
+    expect(unmatched.message).toBe("No recorded HAR entry matches GET https://api.example.com/orders?page=2");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should support looser and stricter matching rules", async () => {
+    const recorder = new HarRecorder({ adapter: backend().adapter });
+    await recordScenario(recorder);
+    const har = await recorder.toHAR();
+
+    const loose = HttpClient.create({
+      baseURL: "https://api.example.com",
+      adapter: new HarReplayer(har, { matchQuery: false }).adapter,
+    });
+    expect((await loose.get("/orders", { params: { page: 9 } })).data).toEqual([{ id: 1 }]);
+
+    const strict = HttpClient.create({
+      baseURL: "https://api.example.com",
+      adapter: new HarReplayer(har, { matchBody: true }).adapter,
+    });
+    await expect(strict.post("/orders", { sku: "A1" })).resolves.toMatchObject({ status: 201 });
+    await expect(strict.post("/orders", { sku: "B2" })).rejects.toBeInstanceOf(ConfigError);
+
+    const custom = HttpClient.create({
+      adapter: new HarReplayer(har, { match: (request, entry) => entry.request.method === request.method }).adapter,
+    });
+    expect((await custom.post("https://elsewhere.example.com/anything", {})).status).toBe(201);
+  });
+
+  it("should pass unmatched requests to fetch in passthrough mode", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => new Response("live"));
+    const empty: HarLog = { log: { version: "1.2", creator: { name: "test", version: "1" }, entries: [] } };
+    const api = HttpClient.create({ adapter: new HarReplayer(empty, { onNoMatch: "passthrough" }).adapter });
+
+    expect((await api.get("https://api.example.com/live")).data).toBe("live");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // Stream bodies are still readable when they reach fetch
+    const body = new Blob(["streamed"]).stream();
+    await api.put("https://api.example.com/live", body);
+    const sent = (fetchSpy.mock.calls[1][1] as RequestInit).body as ReadableStream;
+    expect(sent.locked).toBe(false);
+    expect(await new Response(sent).text()).toBe("streamed");
+  });
+});
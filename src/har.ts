@@ -0,0 +1,361 @@
+import { fetchAdapter } from "./adapters.js";
+import { ConfigError } from "./errors.js";
+import type { HttpAdapter, HttpAdapterContext } from "./index.js";
+
+// HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/), limited to the fields the client fills in
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPostData {
+  mimeType: string;
+  text: string;
+  encoding?: "base64";
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: "base64";
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface HarLog {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarRecorderOptions {
+  /**
+   * Transport that actually sends the requests (default fetch).
+   */
+  adapter?: HttpAdapter;
+  /**
+   * Header names whose values are replaced with "[REDACTED]", in requests and responses
+   * (default Authorization, Proxy-Authorization, Cookie and Set-Cookie). Pass [] to keep everything.
+   */
+  redactHeaders?: string[];
+  /**
+   * Last chance to scrub an entry (tokens in URLs or bodies...) before it is stored.
+   * Return a replacement entry or change the given one in place.
+   */
+  redact?: (_entry: HarEntry) => HarEntry | void;
+}
+
+/**
+ * The request a replay adapter is trying to match.
+ */
+export interface HarReplayRequest {
+  method: string;
+  url: string;
+  /**
+   * Header names are lower-cased.
+   */
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface HarReplayOptions {
+  /**
+   * Compare query strings; when false only the method and the URL without query must match (default true).
+   */
+  matchQuery?: boolean;
+  /**
+   * Compare request bodies as text (default false).
+   */
+  matchBody?: boolean;
+  /**
+   * Header names whose values must match the recording (default none).
+   */
+  matchHeaders?: string[];
+  /**
+   * Custom rule that replaces the built-in comparison.
+   */
+  match?: (_request: HarReplayRequest, _entry: HarEntry) => boolean;
+  /**
+   * What to do with requests that match no entry: fail with a ConfigError (default) or send them with fetch.
+   */
+  onNoMatch?: "error" | "passthrough";
+}
+
+const DEFAULT_REDACTED_HEADERS = ["authorization", "proxy-authorization", "cookie", "set-cookie"];
+const REDACTED = "[REDACTED]";
+
+function isTextType(mimeType: string): boolean {
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded|ndjson|event-stream/i.test(mimeType);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return globalThis.btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = globalThis.atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function headerList(headers: Headers, redacted: string[]): HarNameValue[] {
+  const list: HarNameValue[] = [];
+  headers.forEach((value, name) => {
+    list.push({ name, value: redacted.includes(name.toLowerCase()) ? REDACTED : value });
+  });
+  return list;
+}
+
+// Text bodies are stored as-is, anything else base64-encoded
+function encodeBody(bytes: Uint8Array, mimeType: string): { text: string; encoding?: "base64" } {
+  if (isTextType(mimeType)) return { text: new TextDecoder().decode(bytes) };
+  return { text: toBase64(bytes), encoding: "base64" };
+}
+
+/**
+ * Read a request body without consuming what is sent: streams are teed, everything
+ * else is read through a throwaway Request.
+ */
+async function captureRequestBody(
+  init: RequestInit,
+  url: string
+): Promise<{ init: RequestInit; bytes?: Uint8Array; mimeType?: string }> {
+  const { body } = init;
+  if (body == null) return { init };
+  let sent = body;
+  let copy: BodyInit = body;
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+    [sent, copy] = body.tee();
+  }
+  const probe = new Request(url, { method: "POST", body: copy, duplex: "half" } as RequestInit);
+  const bytes = new Uint8Array(await probe.arrayBuffer());
+  return {
+    init: { ...init, body: sent },
+    bytes,
+    mimeType: new Headers(init.headers).get("content-type") ?? probe.headers.get("content-type") ?? "",
+  };
+}
+
+/**
+ * Transport that sends requests through another adapter (fetch by default) and keeps each
+ * request/response pair as a HAR 1.2 entry. Response bodies are read from a copy, so
+ * streamed responses still stream; their entry completes once the body has been read.
+ *
+ * ```ts
+ * const recorder = new HarRecorder();
+ * const api = HttpClient.create({ adapter: recorder.adapter });
+ * // ...run the scenario...
+ * await writeFile('fixtures/orders.har', JSON.stringify(await recorder.toHAR(), null, 2));
+ * ```
+ */
+export class HarRecorder {
+  readonly adapter: HttpAdapter;
+  private readonly options: HarRecorderOptions;
+  private readonly redacted: string[];
+  private entries: Promise<HarEntry | undefined>[] = [];
+
+  constructor(options: HarRecorderOptions = {}) {
+    this.options = options;
+    this.redacted = (options.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase());
+    this.adapter = (url, init, context) => this.record(url, init, context);
+  }
+
+  /**
+   * The recording so far, once every pending response body has been read.
+   */
+  async toHAR(): Promise<HarLog> {
+    const entries = (await Promise.all(this.entries)).filter((entry): entry is HarEntry => !!entry);
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "advanced-http-client", version: "" },
+        entries,
+      },
+    };
+  }
+
+  /**
+   * Drop everything recorded so far.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  private async record(url: string, init: RequestInit, context?: HttpAdapterContext): Promise<Response> {
+    const started = new Date();
+    const captured = await captureRequestBody(init, url);
+    const send = this.options.adapter ?? fetchAdapter;
+    const response = await send(url, captured.init, context);
+    const headersAt = Date.now();
+
+    // Failed reads (cancelled streams...) simply leave no entry behind
+    const entry = this.buildEntry(url, init, captured, response.clone(), started, headersAt).catch(() => undefined);
+    this.entries.push(entry);
+    return response;
+  }
+
+  private async buildEntry(
+    url: string,
+    init: RequestInit,
+    captured: { bytes?: Uint8Array; mimeType?: string },
+    response: Response,
+    started: Date,
+    headersAt: number
+  ): Promise<HarEntry> {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const finished = Date.now();
+    const mimeType = response.headers.get("content-type") ?? "";
+    const content: HarContent = { size: bytes.byteLength, mimeType };
+    if (bytes.byteLength > 0) Object.assign(content, encodeBody(bytes, mimeType));
+
+    const parsedUrl = new URL(url, "http://localhost");
+    const request: HarRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: headerList(new Headers(init.headers), this.redacted),
+      queryString: Array.from(parsedUrl.searchParams, ([name, value]) => ({ name, value })),
+      headersSize: -1,
+      bodySize: captured.bytes?.byteLength ?? 0,
+    };
+    if (captured.bytes) {
+      const mime = captured.mimeType ?? "";
+      request.postData = { mimeType: mime, ...encodeBody(captured.bytes, mime) };
+    }
+
+    let entry: HarEntry = {
+      startedDateTime: started.toISOString(),
+      time: finished - started.getTime(),
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: headerList(response.headers, this.redacted),
+        content,
+        redirectURL: response.headers.get("location") ?? "",
+        headersSize: -1,
+        bodySize: bytes.byteLength,
+      },
+      cache: {},
+      timings: { send: 0, wait: headersAt - started.getTime(), receive: finished - headersAt },
+    };
+    entry = this.options.redact?.(entry) ?? entry;
+    return entry;
+  }
+}
+
+/**
+ * Transport that answers requests from a HAR recording, offline. By default an entry
+ * matches on method and full URL; repeated requests get the matching entries in recorded
+ * order, the last one being reused once they run out.
+ */
+export class HarReplayer {
+  readonly adapter: HttpAdapter;
+  private readonly entries: HarEntry[];
+  private readonly options: HarReplayOptions;
+  private readonly served = new Set<HarEntry>();
+
+  constructor(har: HarLog, options: HarReplayOptions = {}) {
+    this.entries = har.log.entries;
+    this.options = options;
+    this.adapter = (url, init) => this.replay(url, init);
+  }
+
+  private matches(request: HarReplayRequest, entry: HarEntry): boolean {
+    if (this.options.match) return this.options.match(request, entry);
+    const recorded = entry.request;
+    if (recorded.method.toUpperCase() !== request.method) return false;
+    const strip = (value: string) => (this.options.matchQuery === false ? value.split("?")[0] : value);
+    if (strip(recorded.url) !== strip(request.url)) return false;
+    if (this.options.matchBody) {
+      const recordedBody = recorded.postData?.encoding ? undefined : recorded.postData?.text;
+      if ((recordedBody ?? "") !== (request.body ?? "")) return false;
+    }
+    return (this.options.matchHeaders ?? []).every((name) => {
+      const header = recorded.headers.find((h) => h.name.toLowerCase() === name.toLowerCase());
+      return header?.value === request.headers[name.toLowerCase()];
+    });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) throw init.signal.reason;
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      headers[name] = value;
+    });
+    const captured = await captureRequestBody(init, url);
+    const request: HarReplayRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url,
+      headers,
+      body: captured.bytes ? new TextDecoder().decode(captured.bytes) : undefined,
+    };
+
+    const candidates = this.entries.filter((entry) => this.matches(request, entry));
+    if (candidates.length === 0) {
+      // A stream body was teed while capturing it, so only the captured init can still send it
+      if (this.options.onNoMatch === "passthrough") return fetch(url, captured.init);
+      throw new ConfigError(`No recorded HAR entry matches ${request.method} ${url}`);
+    }
+    // Entries are served in order; the last one keeps answering once all were used
+    const entry = candidates.find((candidate) => !this.served.has(candidate)) ?? candidates[candidates.length - 1];
+    this.served.add(entry);
+    return this.toResponse(entry.response, request.method);
+  }
+
+  private toResponse(recorded: HarResponse, method: string): Response {
+    const headers = new Headers();
+    recorded.headers.forEach(({ name, value }) => {
+      // The stored body is already decoded, so its original encoding and length no longer apply
+      if (/^(content-encoding|content-length|transfer-encoding)$/i.test(name)) return;
+      headers.append(name, value);
+    });
+    const { text, encoding } = recorded.content;
+    const hasBody = text !== undefined && method !== "HEAD" && ![101, 204, 205, 304].includes(recorded.status);
+    const body = hasBody ? (encoding === "base64" ? fromBase64(text as string) : text) : null;
+    return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers });
+  }
+}
@@ -1,4 +1,4 @@
-import { HttpClient, HttpClientError, ExtendedRequestInit } from "./index";
+import { HttpClient, HttpStatusError, ExtendedRequestInit } from "./index";
 
 describe("HttpClient", () => {
   const baseUrl = "https://jsonplaceholder.typicode.com";
@@ -47,7 +47,7 @@ describe("HttpClient", () => {
       try {
         await HttpClient.get(`${baseUrl}/notfound`);
       } catch (err: unknown) {
-        const error = err as HttpClientError;
+        const error = err as HttpStatusError;
         expect(error).toBeInstanceOf(Error);
         expect(error.response.status).toBe(404);
       }
@@ -146,6 +146,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.get("users/1");
       const fetchArgs = spy.mock.calls[0];
@@ -161,6 +162,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.get("/users/1");
       const fetchArgs = spy.mock.calls[0];
@@ -176,6 +178,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.get("/test");
       const fetchArgs = spy.mock.calls[0][1];
@@ -191,6 +194,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.get("/test", {
         headers: { Accept: "text/plain" },
@@ -240,6 +244,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ ok: true }),
+        text: async () => JSON.stringify({ ok: true }),
       } as any);
       await client.get("/test", {
         isolated: true,
@@ -265,6 +270,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ ok: true }),
+        text: async () => JSON.stringify({ ok: true }),
       } as any);
       await client.get("/test", {
         isolated: true,
@@ -291,12 +297,13 @@ describe("HttpClient", () => {
           get: () => "application/json",
         },
         json: async () => ({ error: "Internal Server Error" }),
+        text: async () => JSON.stringify({ error: "Internal Server Error" }),
       } as any);
 
       try {
         await HttpClient.get("https://example.com/api");
       } catch (err: unknown) {
-        const error = err as HttpClientError;
+        const error = err as HttpStatusError;
         expect(error).toBeInstanceOf(Error);
         expect(error.response.status).toBe(500);
       } finally {
@@ -316,12 +323,13 @@ describe("HttpClient", () => {
           get: () => "application/json",
         },
         json: async () => ({ error: "Bad Request" }),
+        text: async () => JSON.stringify({ error: "Bad Request" }),
       } as any);
 
       try {
         await HttpClient.get("https://example.com/api");
       } catch (err: unknown) {
-        const error = err as HttpClientError;
+        const error = err as HttpStatusError;
         expect(error).toBeInstanceOf(Error);
         expect(error.response.status).toBe(400);
       } finally {
@@ -356,7 +364,7 @@ describe("HttpClient", () => {
           get: () => "application/json",
         },
         json: async () => ({ message: "JSON response" }),
-        text: async () => "",
+        text: async () => JSON.stringify({ message: "JSON response" }),
         formData: async () => undefined,
         blob: async () => undefined,
         arrayBuffer: async () => undefined,
@@ -417,6 +425,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.request("/todos/1", { method: "PUT" });
       const fetchArgs = spy.mock.calls[0][1];
@@ -433,6 +442,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: { get: () => "application/json", forEach: () => {} },
         json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
       } as any);
       await client.request("/posts", { 
         method: "POST", 
@@ -474,7 +484,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -510,7 +520,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -539,7 +549,7 @@ describe("HttpClient", () => {
         statusText: "Internal Server Error",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ error: "server error" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ error: "server error" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -570,7 +580,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -604,7 +614,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -629,8 +639,8 @@ describe("HttpClient", () => {
             status: 200,
             statusText: "OK",
             headers: {},
-            config: error.response.config,
-            request: error.response.request,
+            config: error.response?.config,
+            request: error.response?.request,
           } as any;
         }
       );
@@ -641,7 +651,7 @@ describe("HttpClient", () => {
         statusText: "Internal Server Error",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ error: "server error" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ error: "server error" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -684,7 +694,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -727,7 +737,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -759,7 +769,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -792,7 +802,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -817,7 +827,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -864,7 +874,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
@@ -902,7 +912,7 @@ describe("HttpClient", () => {
         statusText: "OK",
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({ message: "success" }),
-        text: () => Promise.resolve(""),
+        text: () => Promise.resolve(JSON.stringify({ message: "success" })),
         formData: () => Promise.resolve(new FormData()),
         blob: () => Promise.resolve(new Blob()),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
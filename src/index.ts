@@ -1,5 +1,171 @@
+import { appendQuery, serializeParams, ParamsSerializer, ParamsSerializerOptions } from "./params.js";
+
+export { appendQuery, serializeParams } from "./params.js";
+export type { ParamsArrayFormat, ParamsSerializer, ParamsSerializerOptions } from "./params.js";
+import { applyRequestTransformers, isStream, serializeBody, RequestTransformer } from "./body.js";
+
+export { serializeBody } from "./body.js";
+export type { RequestTransformer } from "./body.js";
+import { ResponseCache, CacheConfig, CacheEntry, CacheRequestOptions } from "./cache.js";
+
+export { MemoryCacheStore, ResponseCache, parseCacheControl } from "./cache.js";
+export type { CacheConfig, CacheEntry, CacheRequestOptions, CacheStore } from "./cache.js";
+import { InFlightRequests, DedupeConfig } from "./dedupe.js";
+
+export type { DedupeConfig } from "./dedupe.js";
+import {
+  prepareUpload,
+  reportUploadComplete,
+  supportsRequestStreams,
+  trackDownload,
+  ProgressCallback,
+  TrackedUpload,
+} from "./progress.js";
+
+export type { HttpProgressEvent, ProgressCallback } from "./progress.js";
+import { releaseOnSettle, ResponseStream, StreamMode } from "./stream.js";
+
+export { ResponseStream } from "./stream.js";
+export type { StreamMode } from "./stream.js";
+import { EventStream, SSEConfig } from "./sse.js";
+
+export { EventStream, parseEventStream } from "./sse.js";
+export type { ServerSentEvent, SSEConfig, SSEConnector } from "./sse.js";
+import {
+  CancelError,
+  ConfigError,
+  HttpClientError,
+  HttpErrorConfig,
+  HttpStatusError,
+  NetworkError,
+  ParseError,
+  ProblemDetails,
+  ProblemDetailsError,
+  TimeoutError,
+  isCancel,
+  isHttpClientError,
+} from "./errors.js";
+
+export {
+  CancelError,
+  CircuitOpenError,
+  ConfigError,
+  HttpClientError,
+  HttpStatusError,
+  NetworkError,
+  ParseError,
+  ProblemDetailsError,
+  TimeoutError,
+  ValidationError,
+  GraphQLError,
+  isCancel,
+  isHttpClientError,
+} from "./errors.js";
+export type {
+  GraphQLErrorEntry,
+  HttpErrorCode,
+  HttpErrorConfig,
+  HttpErrorDetails,
+  ProblemDetails,
+  ValidationIssue,
+  ValidationPath,
+} from "./errors.js";
+import { validateResponse, ResponseSchema } from "./schema.js";
+
+export { validateResponse } from "./schema.js";
+export type {
+  InferSchema,
+  ParseSchema,
+  ResponseSchema,
+  SafeParseSchema,
+  SchemaParser,
+  SchemaPredicate,
+  StandardSchemaLike,
+} from "./schema.js";
+import { applyJsonApi, JsonApiLinks } from "./jsonapi.js";
+
+export { flattenJsonApi } from "./jsonapi.js";
+export type {
+  JsonApiDocument,
+  JsonApiLink,
+  JsonApiLinks,
+  JsonApiRelationship,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+  JsonApiResourceObject,
+} from "./jsonapi.js";
+import { Paginator, PaginationConfig, PageRequest } from "./paginate.js";
+
+export { Paginator, parseLinkHeader } from "./paginate.js";
+export type {
+  CursorPagination,
+  LinkPagination,
+  OffsetPagination,
+  PageNumberPagination,
+  PageRequest,
+  PaginationConfig,
+  PaginationContext,
+  PaginationStrategy,
+} from "./paginate.js";
+import { AuthManager, AuthConfig } from "./auth.js";
+
+export type { AuthConfig } from "./auth.js";
+import { RequestLimiter, RateLimitConfig, LimiterStats, Priority, ReleaseSlot } from "./limiter.js";
+
+export type { LimiterStats, Priority, RateLimitConfig } from "./limiter.js";
+import { CircuitBreaker, CircuitBreakerConfig, CircuitRecorder, CircuitState } from "./breaker.js";
+
+export type { CircuitBreakerConfig, CircuitOutcome, CircuitState, CircuitStateChange } from "./breaker.js";
+
+import { fetchAdapter, ProxyConfig, TlsConfig } from "./adapters.js";
+
+export { fetchAdapter, xhrAdapter } from "./adapters.js";
+export type { PemInput, ProxyConfig, TlsConfig } from "./adapters.js";
+export { MockAdapter, MockHandler } from "./mock.js";
+export type {
+  MockAdapterOptions,
+  MockReplyFunction,
+  MockRequest,
+  MockResponse,
+  MockRouteOptions,
+  MockUrlMatcher,
+} from "./mock.js";
+
+export { HarRecorder, HarReplayer } from "./har.js";
+export type {
+  HarContent,
+  HarEntry,
+  HarLog,
+  HarNameValue,
+  HarPostData,
+  HarRecorderOptions,
+  HarReplayOptions,
+  HarReplayRequest,
+  HarRequest,
+  HarResponse,
+} from "./har.js";
+import {
+  GraphQLExecutor,
+  GraphQLConfig,
+  GraphQLDocument,
+  GraphQLRequestOptions,
+  GraphQLResponse,
+  GraphQLVariables,
+} from "./graphql.js";
+
+export type {
+  GraphQLBatchConfig,
+  GraphQLConfig,
+  GraphQLDocument,
+  GraphQLRequestOptions,
+  GraphQLResponse,
+  GraphQLVariables,
+  PersistedQueriesConfig,
+  TypedGraphQLDocument,
+} from "./graphql.js";
+
 // Define proper types for extended options
-export interface ExtendedRequestInit extends RequestInit {
+export interface ExtendedRequestInit<T = unknown> extends Omit<RequestInit, "priority"> {
   isolated?: boolean;
   includeHeaders?: string[];
   /**
@@ -10,11 +176,190 @@ export interface ExtendedRequestInit extends RequestInit {
    * Unique key that can later be used to cancel this request via cancelRequest.
    */
   controlKey?: string;
+  /**
+   * Retry policy for this request. Overrides the instance-level policy; pass 0 or false to disable.
+   */
+  retry?: number | false | RetryConfig;
+  /**
+   * Query parameters appended to the URL. Merged over the instance-level params.
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Custom serializer function, or options for the built-in one (array style, Date format).
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions;
+  /**
+   * Request payload. Serialized according to its type (JSON, FormData, URLSearchParams, Blob, binary, stream or string).
+   */
+  data?: unknown;
+  /**
+   * Transformers applied to `data` before it is serialized. Run after the instance-level ones.
+   */
+  transformRequest?: RequestTransformer | RequestTransformer[];
+  /**
+   * How to read the response body. When omitted the parser is chosen from the Content-Type header.
+   */
+  responseType?: HttpResponseType;
+  /**
+   * Transformers applied to the parsed response data. Run after the instance-level ones.
+   */
+  transformResponse?: ResponseTransformer | ResponseTransformer[];
+  /**
+   * Validates the response data (after `transformResponse`) and types it; a mismatch rejects with ValidationError.
+   */
+  schema?: ResponseSchema<T>;
+  /**
+   * Treat the body as a JSON:API document: flatten its primary data and included resources into
+   * `data`, and copy its top-level `links` and `meta` onto the response. Runs before `schema`.
+   */
+  jsonApi?: boolean;
+  /**
+   * Per-request cache options for instances created with `responseCache`; `false` bypasses the cache.
+   */
+  responseCache?: false | CacheRequestOptions;
+  /**
+   * Set to false to opt this request out of in-flight deduplication.
+   */
+  dedupe?: boolean;
+  /**
+   * Decides which statuses resolve; the others reject with HttpStatusError. Defaults to 2xx.
+   */
+  validateStatus?: StatusValidator;
+  /**
+   * Set to false to skip the instance auth (token injection and refresh) for this request.
+   */
+  auth?: false;
+  /**
+   * Transport used instead of the global fetch, e.g. xhrAdapter or a MockAdapter in tests.
+   */
+  adapter?: HttpAdapter;
+  /**
+   * Queue position when the instance limits make requests wait: "high", "normal", "low" or a number (higher first).
+   */
+  priority?: Priority;
+  /**
+   * Called as the request body is sent. Buffered bodies report one event once the upload completes,
+   * unless `streamUpload` is set.
+   */
+  onUploadProgress?: ProgressCallback;
+  /**
+   * Send a buffered body as a stream (`duplex: "half"`) so `onUploadProgress` follows it as it goes.
+   * The request then has no Content-Length and needs HTTP/2 in browsers.
+   */
+  streamUpload?: boolean;
+  /**
+   * Called as the response body is received.
+   */
+  onDownloadProgress?: ProgressCallback;
 }
 
-// Define proper error type
-export interface HttpClientError extends Error {
-  response: HttpClientResponse;
+/**
+ * Retry policy. A plain number is shorthand for `{ retries: n }` with every other field at its default.
+ */
+export interface RetryConfig {
+  /**
+   * Number of retries after the first attempt (default 3).
+   */
+  retries?: number;
+  /**
+   * HTTP methods that may be retried (default GET, HEAD, OPTIONS, PUT, DELETE).
+   */
+  methods?: string[];
+  /**
+   * Response status codes that trigger a retry (default 408, 429, 500, 502, 503, 504).
+   */
+  statusCodes?: number[];
+  /**
+   * Retry when fetch itself rejects or the attempt times out (default true).
+   */
+  retryOnNetworkError?: boolean;
+  /**
+   * Delay before the first retry in milliseconds; doubled on every further retry (default 300).
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single backoff delay in milliseconds (default 30000).
+   */
+  maxDelay?: number;
+  /**
+   * Randomisation applied to the backoff delay (default "full").
+   */
+  jitter?: "none" | "full" | "equal";
+  /**
+   * Ceiling in milliseconds on the total time spent across all attempts and delays.
+   */
+  maxElapsedTime?: number;
+  /**
+   * Honour the Retry-After header on 429 and 503 responses (default true).
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Explicit response body parser:
+ * - "json": parse as JSON, rejecting when the body is not valid JSON
+ * - "text" / "blob" / "arrayBuffer" / "formData": the matching Response method
+ * - "stream": the raw `ReadableStream` from `response.body`, left unread
+ * - "chunks" / "lines" / "ndjson": a `ResponseStream` that yields chunks, text lines or parsed records as they arrive
+ * - "none": do not read the body at all
+ */
+export type HttpResponseType =
+  | "json"
+  | "text"
+  | "blob"
+  | "arrayBuffer"
+  | "formData"
+  | "stream"
+  | "chunks"
+  | "lines"
+  | "ndjson"
+  | "none";
+
+/**
+ * Returns true for statuses that should resolve the request.
+ */
+export interface StatusValidator {
+  (_status: number): boolean;
+}
+
+/**
+ * Per-request extras for the adapter. Progress callbacks are only handed to adapters that
+ * report progress themselves; proxy and TLS settings come from the instance and are
+ * applied by nodeAdapter.
+ */
+export interface HttpAdapterContext {
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+  /**
+   * Instance proxy; false disables the proxy environment variables.
+   */
+  proxy?: ProxyConfig | false;
+  tls?: TlsConfig;
+}
+
+/**
+ * Transport used to send a request, with the same contract as `fetch`: it receives the
+ * final URL and init (including the attempt's `signal`) and resolves with a `Response`.
+ * Rejections are reported as NetworkError, except errors that already are client errors.
+ *
+ * Once `signal` aborts, the adapter must reject with `signal.reason` (or error the response
+ * body with it when headers were already received) so timeouts and cancellations surface
+ * the same way for every transport.
+ */
+export interface HttpAdapter {
+  (_url: string, _init: RequestInit, _context?: HttpAdapterContext): Promise<Response>;
+  /**
+   * Set by adapters that report progress through the context; the client then skips its
+   * own stream-based progress tracking.
+   */
+  reportsProgress?: boolean;
+}
+
+/**
+ * Response data transformer. Receives the parsed data, the response headers and the status code and returns the next data.
+ */
+export interface ResponseTransformer {
+  (_data: unknown, _headers: Record<string, string>, _status: number): unknown;
 }
 
 export interface HttpClientResponse<T = unknown> {
@@ -24,18 +369,42 @@ export interface HttpClientResponse<T = unknown> {
   headers: Record<string, string>;
   config: {
     url: string;
-    options?: RequestInit;
+    options?: HttpRequestOptions;
     method: string;
     body?: unknown;
+    /**
+     * 1-based number of the attempt that produced this response.
+     */
+    attempt?: number;
   };
   request: Response;
+  /**
+   * The unparsed response text. Only set when the body looked like JSON but could not be parsed.
+   */
+  rawBody?: string;
+  /**
+   * True when the response was served from the instance response cache (including after a 304 revalidation).
+   */
+  fromCache?: boolean;
+  /**
+   * Top-level links of a JSON:API document. Only set in JSON:API mode.
+   */
+  links?: JsonApiLinks;
+  /**
+   * Top-level meta of a JSON:API document. Only set in JSON:API mode.
+   */
+  meta?: Record<string, unknown>;
 }
 
-export interface HttpRequestOptions extends Omit<RequestInit, "headers"> {
+export interface HttpRequestOptions extends Omit<RequestInit, "headers" | "priority"> {
   /**
    * Headers as a plain object. This is always a Record<string, string> in this implementation.
    */
   headers: Record<string, string>;
+  /**
+   * Set for streamed request bodies, which fetch only sends half-duplex. Missing from the DOM RequestInit type.
+   */
+  duplex?: "half";
   /**
    * If true, this request will ignore all global, instance, and default settings, using only the provided options.
    */
@@ -52,9 +421,101 @@ export interface HttpRequestOptions extends Omit<RequestInit, "headers"> {
    * Unique key that can later be used to cancel this request via cancelRequest.
    */
   controlKey?: string;
+  /**
+   * Retry policy for this request. Overrides the instance-level policy; pass 0 or false to disable.
+   */
+  retry?: number | false | RetryConfig;
+  /**
+   * Query parameters appended to the URL. Merged over the instance-level params.
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Custom serializer function, or options for the built-in one (array style, Date format).
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions;
+  /**
+   * Request payload. Serialized according to its type (JSON, FormData, URLSearchParams, Blob, binary, stream or string).
+   */
+  data?: unknown;
+  /**
+   * Transformers applied to `data` before it is serialized. Run after the instance-level ones.
+   */
+  transformRequest?: RequestTransformer | RequestTransformer[];
+  /**
+   * How to read the response body. When omitted the parser is chosen from the Content-Type header.
+   */
+  responseType?: HttpResponseType;
+  /**
+   * Transformers applied to the parsed response data. Run after the instance-level ones.
+   */
+  transformResponse?: ResponseTransformer | ResponseTransformer[];
+  /**
+   * Validates the response data (after `transformResponse`) and types it; a mismatch rejects with ValidationError.
+   */
+  schema?: ResponseSchema;
+  /**
+   * Treat the body as a JSON:API document: flatten its primary data and included resources into
+   * `data`, and copy its top-level `links` and `meta` onto the response. Runs before `schema`.
+   */
+  jsonApi?: boolean;
+  /**
+   * Per-request cache options for instances created with `responseCache`; `false` bypasses the cache.
+   */
+  responseCache?: false | CacheRequestOptions;
+  /**
+   * Set to false to opt this request out of in-flight deduplication.
+   */
+  dedupe?: boolean;
+  /**
+   * Decides which statuses resolve; the others reject with HttpStatusError. Defaults to 2xx.
+   */
+  validateStatus?: StatusValidator;
+  /**
+   * Set to false to skip the instance auth (token injection and refresh) for this request.
+   */
+  auth?: false;
+  /**
+   * Transport used instead of the global fetch, e.g. xhrAdapter or a MockAdapter in tests.
+   */
+  adapter?: HttpAdapter;
+  /**
+   * Queue position when the instance limits make requests wait: "high", "normal", "low" or a number (higher first).
+   */
+  priority?: Priority;
+  /**
+   * Called as the request body is sent. Buffered bodies report one event once the upload completes,
+   * unless `streamUpload` is set.
+   */
+  onUploadProgress?: ProgressCallback;
+  /**
+   * Send a buffered body as a stream (`duplex: "half"`) so `onUploadProgress` follows it as it goes.
+   * The request then has no Content-Length and needs HTTP/2 in browsers.
+   */
+  streamUpload?: boolean;
+  /**
+   * Called as the response body is received.
+   */
+  onDownloadProgress?: ProgressCallback;
+}
+
+/**
+ * Object-style request description accepted by `request(config)`. `method` may be any
+ * verb, including non-standard ones such as PROPFIND or PURGE.
+ */
+export interface HttpRequestConfig<T = unknown> extends ExtendedRequestInit<T> {
+  url: string;
+  method?: string;
 }
 
-export interface HttpClientConfig extends Omit<RequestInit, "headers"> {
+/**
+ * Options for `sse()`. Request options apply to every (re)connection; `controlKey`
+ * cancels the whole stream, including a pending reconnect.
+ */
+export interface SSEOptions extends ExtendedRequestInit, SSEConfig {}
+
+export interface PaginateOptions<T = unknown, TPage = unknown> extends ExtendedRequestInit<TPage>, PaginationConfig<T, TPage> {}
+
+export interface HttpClientConfig extends Omit<RequestInit, "headers" | "priority"> {
   baseURL?: string;
   headers?: Record<string, string>;
   timeout?: number;
@@ -62,6 +523,82 @@ export interface HttpClientConfig extends Omit<RequestInit, "headers"> {
    * Default cancellation key applied to every request made by this instance (optional)
    */
   controlKey?: string;
+  /**
+   * Default retry policy for every request made by this instance (optional)
+   */
+  retry?: number | false | RetryConfig;
+  /**
+   * Default query parameters sent with every request made by this instance (optional)
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Default query serializer for this instance (optional)
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions;
+  /**
+   * Body transformers applied to every post/patch/delete made by this instance (optional)
+   */
+  transformRequest?: RequestTransformer | RequestTransformer[];
+  /**
+   * Default response body parser for this instance (optional)
+   */
+  responseType?: HttpResponseType;
+  /**
+   * Response transformers applied to every request made by this instance (optional)
+   */
+  transformResponse?: ResponseTransformer | ResponseTransformer[];
+  /**
+   * Flatten JSON:API documents in every response of this instance (optional)
+   */
+  jsonApi?: boolean;
+  /**
+   * Enable the response cache for GET requests made by this instance (optional)
+   */
+  responseCache?: boolean | CacheConfig;
+  /**
+   * Collapse concurrent identical requests made by this instance into one network call (optional)
+   */
+  dedupe?: boolean | DedupeConfig;
+  /**
+   * Default status validation for this instance (optional)
+   */
+  validateStatus?: StatusValidator;
+  /**
+   * Bearer-token auth with single-flight refresh and replay on 401 (optional)
+   */
+  auth?: AuthConfig;
+  /**
+   * Maximum number of requests this instance has in flight at once; the rest wait in a queue (optional)
+   */
+  maxConcurrent?: number;
+  /**
+   * Token-bucket limit on requests started per interval, optionally per host (optional)
+   */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Default queue priority for requests made by this instance (optional)
+   */
+  priority?: Priority;
+  /**
+   * Fail fast with CircuitOpenError for origins that keep failing (optional)
+   */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+  /**
+   * Transport for every request made by this instance, including isolated ones (optional, default fetchAdapter)
+   */
+  adapter?: HttpAdapter;
+  /**
+   * Node only, with nodeAdapter: proxy URL or settings; false ignores HTTP_PROXY / HTTPS_PROXY (optional)
+   */
+  proxy?: string | ProxyConfig | false;
+  /**
+   * Node only, with nodeAdapter: CA bundle, client certificate and verification settings (optional)
+   */
+  tls?: TlsConfig;
+  /**
+   * Endpoint, persisted queries and batching used by `graphql()` (optional)
+   */
+  graphql?: GraphQLConfig;
 }
 
 // Interceptor types
@@ -157,20 +694,184 @@ const CONTENT_TYPES = {
 const HTTP_METHODS = {
   GET: "GET",
   POST: "POST",
+  PUT: "PUT",
   PATCH: "PATCH",
   DELETE: "DELETE",
+  HEAD: "HEAD",
+  OPTIONS: "OPTIONS",
 } as const;
 
+// Matches application/json as well as structured syntax suffixes such as application/problem+json
+function isJSONContentType(contentType: string): boolean {
+  const mediaType = contentType.split(";")[0].trim();
+  return mediaType.indexOf(CONTENT_TYPES.JSON) !== -1 || /\+json$/.test(mediaType);
+}
+
+// RFC 9457 problem details: an application/problem+json body holding a JSON object
+function isProblemDetails(headers: Record<string, string>, data: unknown): data is ProblemDetails {
+  const mediaType = (headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  return mediaType === "application/problem+json" && !!data && typeof data === "object" && !Array.isArray(data);
+}
+
+// Outcome of reading a response body
+interface ParsedBody {
+  data: unknown;
+  rawBody?: string;
+  parseError?: unknown;
+}
+
+// Outcome of one network exchange (all attempts plus body parsing)
+interface Exchange {
+  response: Response;
+  parsed: ParsedBody;
+  attempt: number;
+  /**
+   * True when the body is handed to the caller unread; the request stays registered until it settles.
+   */
+  open?: boolean;
+}
+
+// Response types whose body is handed to the caller as it arrives instead of being buffered
+const STREAMING_RESPONSE_TYPES: HttpResponseType[] = ["stream", "chunks", "lines", "ndjson"];
+
+function defaultValidateStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+function isStreamingResponseType(responseType?: HttpResponseType): boolean {
+  return !!responseType && STREAMING_RESPONSE_TYPES.includes(responseType);
+}
+
+function applyResponseTransformers(
+  data: unknown,
+  headers: Record<string, string>,
+  status: number,
+  transformers?: ResponseTransformer | ResponseTransformer[]
+): unknown {
+  if (!transformers) return data;
+  const chain = Array.isArray(transformers) ? transformers : [transformers];
+  return chain.reduce((current, transform) => transform(current, headers, status), data);
+}
+
+// Copy cached data so callers and interceptors can't mutate the stored entry
+function cloneData<T>(data: T): T {
+  if (typeof globalThis.structuredClone !== "function") return data;
+  try {
+    return globalThis.structuredClone(data);
+  } catch {
+    return data;
+  }
+}
+
 // Special key used internally for requests that don't specify a controlKey
 const ANONYMOUS_KEY = "__anonymous__";
 
+// Marks the replay of a request after a token refresh so it is not refreshed again; holds the
+// controller of the original request, which stays registered under its controlKey
+const AUTH_REPLAY = Symbol("authReplay");
+
+// Defaults applied to any field a RetryConfig leaves out
+const RETRY_DEFAULTS: Required<Omit<RetryConfig, "maxElapsedTime">> & { maxElapsedTime?: number } = {
+  retries: 3,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  baseDelay: 300,
+  maxDelay: 30000,
+  jitter: "full",
+  maxElapsedTime: undefined,
+  respectRetryAfter: true,
+};
+
+// Statuses whose Retry-After header is honoured
+const RETRY_AFTER_STATUSES = [429, 503];
+
+function resolveRetryConfig(retry: ExtendedRequestInit["retry"]): typeof RETRY_DEFAULTS | undefined {
+  if (!retry) return undefined;
+  const config = typeof retry === "number" ? { retries: retry } : retry;
+  const resolved = { ...RETRY_DEFAULTS, ...config };
+  return resolved.retries > 0 ? resolved : undefined;
+}
+
+// Exponential backoff for the given retry number (1 = first retry) with the configured jitter
+function computeBackoff(retry: typeof RETRY_DEFAULTS, retryNumber: number): number {
+  const exp = Math.min(retry.maxDelay, retry.baseDelay * Math.pow(2, retryNumber - 1));
+  if (retry.jitter === "full") return Math.random() * exp;
+  if (retry.jitter === "equal") return exp / 2 + Math.random() * (exp / 2);
+  return exp;
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+// A CancelError for an aborted signal. Abort reasons may be shared by several
+// requests (e.g. the anonymous controller), so every request gets its own error.
+function cancelErrorFor(signal: AbortSignal | undefined, config?: HttpErrorConfig, controlKey?: string): CancelError {
+  const reason = signal?.reason;
+  return new CancelError(isCancel(reason) ? reason.message : undefined, {
+    config,
+    controlKey: controlKey ?? (isCancel(reason) ? reason.controlKey : undefined),
+    cause: reason,
+  });
+}
+
+// Abort reason used when a registered controller is cancelled
+function cancelReasonFor(key: string): CancelError {
+  return new CancelError(undefined, { controlKey: key === ANONYMOUS_KEY ? undefined : key });
+}
+
+// Resolve after `ms`, or reject as soon as `signal` aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(cancelErrorFor(signal));
+      return;
+    }
+    const onAbort = () => {
+      globalThis.clearTimeout(timer);
+      reject(cancelErrorFor(signal));
+    };
+    const timer = globalThis.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Settle like the promise, or reject with the cancellation as soon as the signal aborts
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(cancelErrorFor(signal));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelErrorFor(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 export class HttpClient {
   private static globalHeaders: Record<string, string> = {};
   private static globalControllers = new Map<string, AbortController>();
   private static allInstances = new Set<HttpClient>();
   private readonly baseURL?: string;
   private readonly instanceHeaders: Record<string, string>;
-  private readonly instanceOptions: Omit<RequestInit, "headers">;
+  private readonly instanceOptions: Omit<HttpClientConfig, "baseURL" | "headers" | "responseCache" | "dedupe" | "auth" | "maxConcurrent" | "rateLimit" | "circuitBreaker" | "adapter" | "proxy" | "tls" | "graphql">;
+  private readonly responseCache?: ResponseCache;
+  private readonly inFlight?: InFlightRequests;
+  private readonly auth?: AuthManager;
+  private readonly limiter?: RequestLimiter;
+  private readonly breaker?: CircuitBreaker;
+  private readonly adapter?: HttpAdapter;
+  private readonly transport: Pick<HttpAdapterContext, "proxy" | "tls">;
+  private readonly graphqlConfig?: GraphQLConfig;
+  private graphqlExecutor?: GraphQLExecutor;
   
   // Interceptor properties
   public interceptors: {
@@ -184,8 +885,26 @@ export class HttpClient {
   constructor(config?: HttpClientConfig) {
     this.baseURL = config?.baseURL;
     this.instanceHeaders = { ...(config?.headers || {}) };
-    const { baseURL: _baseURL, headers: _headers, ...rest } = config || {};
+    const { baseURL: _baseURL, headers: _headers, responseCache, dedupe, auth, maxConcurrent, rateLimit, circuitBreaker, adapter, proxy, tls, graphql, ...rest } = config || {};
     this.instanceOptions = rest;
+    this.adapter = adapter;
+    this.graphqlConfig = graphql;
+    this.transport = { proxy: typeof proxy === "string" ? { url: proxy } : proxy, tls };
+    if (responseCache) {
+      this.responseCache = new ResponseCache(responseCache === true ? {} : responseCache);
+    }
+    if (dedupe) {
+      this.inFlight = new InFlightRequests(dedupe === true ? {} : dedupe);
+    }
+    if (auth) {
+      this.auth = new AuthManager(auth);
+    }
+    if (maxConcurrent || rateLimit) {
+      this.limiter = new RequestLimiter(maxConcurrent, rateLimit);
+    }
+    if (circuitBreaker) {
+      this.breaker = new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker);
+    }
     
     // Initialize interceptors
     this.interceptors = {
@@ -222,7 +941,7 @@ export class HttpClient {
         const buf: Uint8Array = nodeCrypto.randomBytes(20);
         buf.forEach((b: number, i: number) => (bytes[i] = b));
       } else {
-        throw new Error("Secure random number generation is not available in this environment. Please provide a controlKey manually.");
+        throw new ConfigError("Secure random number generation is not available in this environment. Please provide a controlKey manually.");
       }
     }
 
@@ -251,24 +970,63 @@ export class HttpClient {
     return new HttpClient(config);
   }
 
-  private static async parseResponseBody(response: Response): Promise<unknown> {
-    let data: unknown = undefined;
-    const contentType: string = response.headers.get("content-type") ?? "";
+  private static async parseResponseBody(
+    response: Response,
+    method?: string,
+    responseType?: HttpResponseType
+  ): Promise<ParsedBody> {
+    // HEAD responses never carry a body
+    if (responseType === "none" || method?.toUpperCase() === HTTP_METHODS.HEAD) {
+      return { data: undefined };
+    }
+
+    switch (responseType) {
+      case "json":
+        return HttpClient.parseJSONBody(response, true);
+      case "text":
+        return { data: await response.text() };
+      case "blob":
+        return { data: await response.blob() };
+      case "arrayBuffer":
+        return { data: await response.arrayBuffer() };
+      case "formData":
+        return { data: await response.formData() };
+      case "stream":
+        return { data: response.body };
+    }
+
+    const contentType: string = (response.headers.get("content-type") ?? "").toLowerCase();
     
-    if (contentType && contentType.indexOf(CONTENT_TYPES.JSON) !== -1) {
-      data = await response.json();
+    if (isJSONContentType(contentType)) {
+      return HttpClient.parseJSONBody(response, false);
     } else if (contentType && contentType.indexOf(CONTENT_TYPES.TEXT) !== -1) {
-      data = await response.text();
+      return { data: await response.text() };
     } else if (contentType && contentType.indexOf(CONTENT_TYPES.FORM) !== -1) {
-      data = await response.formData();
+      return { data: await response.formData() };
     } else if (contentType && contentType.indexOf(CONTENT_TYPES.BLOB) !== -1) {
-      data = await response.blob();
+      return { data: await response.blob() };
     } else if (contentType && contentType.indexOf(CONTENT_TYPES.ARRAY_BUFFER) !== -1) {
-      data = await response.arrayBuffer();
-    } else {
-      data = await response.text();
+      return { data: await response.arrayBuffer() };
+    }
+    return { data: await response.text() };
+  }
+
+  /**
+   * Parse the body as JSON. An empty body yields `undefined`. When parsing fails the raw
+   * text is kept in `rawBody`; in strict mode (an explicit `responseType: "json"`) the failure
+   * is also reported so the request rejects, otherwise `data` falls back to the raw text.
+   */
+  private static async parseJSONBody(response: Response, strict: boolean): Promise<ParsedBody> {
+    // Read as text once rather than cloning the response, which would buffer the body twice
+    const rawBody = await response.text();
+    if (!rawBody.trim()) {
+      return { data: undefined };
+    }
+    try {
+      return { data: JSON.parse(rawBody) };
+    } catch (error) {
+      return { data: rawBody, rawBody, parseError: strict ? error : undefined };
     }
-    return data;
   }
 
   private mergeConfig(options?: ExtendedRequestInit): HttpRequestOptions {
@@ -323,11 +1081,32 @@ export class HttpClient {
       mergedHeaders["Accept"] = CONTENT_TYPES.JSON;
     }
     
-    return {
+    const merged: HttpRequestOptions = {
       ...this.instanceOptions,
       ...options,
       headers: mergedHeaders,
     };
+
+    // Per-request params extend, rather than replace, the instance params
+    if (this.instanceOptions.params && options?.params) {
+      merged.params = { ...this.instanceOptions.params, ...options.params };
+    }
+
+    // Per-request transformers run after the instance transformers
+    if (this.instanceOptions.transformRequest && options?.transformRequest) {
+      merged.transformRequest = ([] as RequestTransformer[]).concat(
+        this.instanceOptions.transformRequest,
+        options.transformRequest
+      );
+    }
+    if (this.instanceOptions.transformResponse && options?.transformResponse) {
+      merged.transformResponse = ([] as ResponseTransformer[]).concat(
+        this.instanceOptions.transformResponse,
+        options.transformResponse
+      );
+    }
+
+    return merged;
   }
 
   private convertHeadersToObject(headers: Headers): Record<string, string> {
@@ -338,11 +1117,19 @@ export class HttpClient {
     return obj;
   }
 
-  private buildURL(url: string): string {
+  private buildURL(url: string, options?: Pick<HttpRequestOptions, "params" | "paramsSerializer">): string {
+    let fullUrl = url;
     if (this.baseURL && !/^https?:\/\//i.test(url)) {
-      return this.baseURL.replace(/\/$/, "") + "/" + url.replace(/^\//, "");
+      fullUrl = this.baseURL.replace(/\/$/, "") + "/" + url.replace(/^\//, "");
+    }
+    if (options?.params) {
+      const serializer = options.paramsSerializer;
+      const query = typeof serializer === "function"
+        ? serializer(options.params)
+        : serializeParams(options.params, serializer);
+      fullUrl = appendQuery(fullUrl, query.replace(/^\?/, ""));
     }
-    return url;
+    return fullUrl;
   }
 
   private async executeRequestInterceptors(config: HttpRequestOptions): Promise<HttpRequestOptions> {
@@ -394,135 +1181,570 @@ export class HttpClient {
     throw currentError;
   }
 
+  /**
+   * Send a request. Accepts either `(url, options)` or a single config object
+   * (`{ method, url, data, ... }`), which also allows custom verbs.
+   */
+  async request<T = unknown>(_config: HttpRequestConfig<T>): Promise<HttpClientResponse<T>>;
+  async request<T = unknown>(_url: string, _options?: ExtendedRequestInit<T>): Promise<HttpClientResponse<T>>;
   async request<T = unknown>(
-    url: string,
-    options?: RequestInit
+    urlOrConfig: string | HttpRequestConfig<T>,
+    requestOptions?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
-    if (typeof fetch === "undefined") {
-      throw new Error(
-        "fetch is not available in this environment. For Node.js <18, install a fetch polyfill."
+    let url: string;
+    let options: ExtendedRequestInit<T> | undefined;
+    if (typeof urlOrConfig === "string") {
+      url = urlOrConfig;
+      options = requestOptions;
+    } else {
+      const { url: configUrl, ...rest } = urlOrConfig;
+      url = configUrl;
+      options = rest;
+    }
+
+    const adapter = options?.adapter ?? this.adapter;
+    if (!adapter && typeof fetch === "undefined") {
+      throw new ConfigError(
+        "fetch is not available in this environment. For Node.js <18, install a fetch polyfill or use nodeAdapter."
       );
     }
     
-    const finalOptions = this.mergeConfig(options as ExtendedRequestInit);
-    const fullUrl = this.buildURL(url);
+    const finalOptions = this.mergeConfig(options);
+    delete finalOptions.adapter;
+
+    // Auth applies to the instance defaults, so isolated requests go without it
+    const auth = finalOptions.auth !== false && !finalOptions.isolated ? this.auth : undefined;
+    const replayController = (options as Record<symbol, unknown> | undefined)?.[AUTH_REPLAY] as AbortController | undefined;
+    const isAuthReplay = !!replayController;
+    delete finalOptions.auth;
+    let authToken: string | undefined;
+    try {
+      authToken = await auth?.authorize(finalOptions.headers);
+    } catch (error) {
+      // A failing getToken reaches the error interceptors like any other failure
+      return await this.executeErrorInterceptors(error as HttpClientError);
+    }
     
     // Execute request interceptors
     const interceptedOptions = await this.executeRequestInterceptors(finalOptions);
-    
-    // Determine if we have to create an AbortController (for timeout or controlKey)
-    const needsController = (!interceptedOptions.signal) || (typeof interceptedOptions.timeout === "number" && interceptedOptions.timeout > 0) || interceptedOptions.controlKey;
 
-    let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
-    let controller: AbortController | undefined;
-    let currentControlKey: string | undefined = interceptedOptions.controlKey;
+    // Query params are applied after the interceptors so they can still adjust them
+    const fullUrl = this.buildURL(url, interceptedOptions);
+    delete interceptedOptions.params;
+    delete interceptedOptions.paramsSerializer;
 
-    if (needsController) {
-      if (!interceptedOptions.signal) {
-        controller = new AbortController();
-        interceptedOptions.signal = controller.signal;
+    // Serialize the payload once the interceptors have had a chance to change it
+    if (interceptedOptions.data !== undefined) {
+      const data = applyRequestTransformers(interceptedOptions.data, interceptedOptions.headers, interceptedOptions.transformRequest);
+      interceptedOptions.body = serializeBody(data, interceptedOptions.headers);
+      if (isStream(interceptedOptions.body)) {
+        // Required by Node's fetch for streaming request bodies
+        interceptedOptions.duplex = "half";
       }
     }
+    delete interceptedOptions.data;
+    delete interceptedOptions.transformRequest;
 
-    if (typeof interceptedOptions.timeout === "number" && interceptedOptions.timeout > 0) {
-      // If a signal already exists, we cannot attach our AbortController.
-      timeoutId = globalThis.setTimeout(() => {
-        controller?.abort();
-      }, interceptedOptions.timeout);
-      // timeout should not be passed to fetch API
-      delete (interceptedOptions as any).timeout;
+    const responseType = interceptedOptions.responseType;
+    const transformResponse = interceptedOptions.transformResponse;
+    const schema = interceptedOptions.schema;
+    // Streams are handed over unread, so there is no document to flatten
+    const jsonApi = !!interceptedOptions.jsonApi && !isStreamingResponseType(responseType);
+    delete interceptedOptions.responseType;
+    delete interceptedOptions.transformResponse;
+    delete interceptedOptions.schema;
+    delete interceptedOptions.jsonApi;
+    if (schema && isStreamingResponseType(responseType)) {
+      throw new ConfigError("A schema cannot validate a streamed response; call validateResponse on the data you read instead.");
     }
 
-    // Handle controlKey registration (no duplicates)
-    if (currentControlKey) {
-      const key = currentControlKey;
-      delete (interceptedOptions as any).controlKey;
-      let map: Map<string, AbortController>;
-      if ((this as any)._isStaticInstance) {
-        map = HttpClient.globalControllers;
-      } else {
-        map = this.controllers;
+    // Upload progress needs a streaming request body. Buffered bodies are only streamed on request
+    // (streaming drops Content-Length), otherwise the upload is reported once it completes.
+    // Adapters with their own progress events (XHR) get the callbacks instead.
+    const onUploadProgress = interceptedOptions.onUploadProgress;
+    const onDownloadProgress = interceptedOptions.onDownloadProgress;
+    const streamUpload = !!interceptedOptions.streamUpload || isStream(interceptedOptions.body);
+    delete interceptedOptions.onUploadProgress;
+    delete interceptedOptions.onDownloadProgress;
+    delete interceptedOptions.streamUpload;
+    const nativeProgress = !!adapter?.reportsProgress;
+    const adapterContext: HttpAdapterContext = nativeProgress
+      ? { ...this.transport, onUploadProgress, onDownloadProgress }
+      : this.transport;
+    let upload: TrackedUpload | undefined;
+    if (onUploadProgress && streamUpload && !nativeProgress && interceptedOptions.body != null && supportsRequestStreams()) {
+      upload = await prepareUpload(interceptedOptions.body, onUploadProgress);
+      const hasContentType = Object.keys(interceptedOptions.headers).some((k) => k.toLowerCase() === "content-type");
+      if (upload.contentType && !hasContentType) {
+        interceptedOptions.headers["Content-Type"] = upload.contentType;
       }
-      if (map.has(key)) {
-        throw new Error(`controlKey '${key}' is already in use.`);
+    }
+
+    const validateStatus = interceptedOptions.validateStatus ?? defaultValidateStatus;
+    delete interceptedOptions.validateStatus;
+
+    const method = (interceptedOptions.method ?? HTTP_METHODS.GET).toUpperCase();
+    const dedupeOption = interceptedOptions.dedupe;
+    delete interceptedOptions.dedupe;
+
+    // Response cache (GET only, opt-in per instance)
+    const cacheOption = interceptedOptions.responseCache;
+    const cacheOptions: CacheRequestOptions = cacheOption || {};
+    delete interceptedOptions.responseCache;
+    const cache = method === HTTP_METHODS.GET && cacheOption !== false ? this.responseCache : undefined;
+    const cacheKey = cache?.keyFor(method, fullUrl, interceptedOptions.headers, responseType);
+    let cached: CacheEntry | undefined;
+    if (cache && cacheKey) {
+      cached = await cache.get(cacheKey, interceptedOptions.headers);
+      if (cached && !cacheOptions.revalidate) {
+        if (cache.isFresh(cached)) {
+          return this.answerFromCache(this.responseFromCache<T>(cached, fullUrl, interceptedOptions, 0), schema, jsonApi);
+        }
+        if (cache.canServeStale(cached)) {
+          // Serve the stale copy now and refresh it in the background
+          this.request(url, {
+            ...options,
+            controlKey: undefined,
+            responseCache: { ...cacheOptions, revalidate: true },
+          } as ExtendedRequestInit).catch(() => undefined);
+          return this.answerFromCache(this.responseFromCache<T>(cached, fullUrl, interceptedOptions, 0), schema, jsonApi);
+        }
       }
-      if (!controller) {
-        controller = new AbortController();
-        interceptedOptions.signal = controller.signal;
+      if (cached) {
+        Object.entries(cache.validatorsFor(cached)).forEach(([k, v]) => {
+          if (!(k in interceptedOptions.headers)) interceptedOptions.headers[k] = v;
+        });
       }
-      map.set(key, controller);
     }
 
-    // Handle requests without a controlKey by using a shared anonymous key
-    if (!currentControlKey) {
-      const mapAnon: Map<string, AbortController> = (this as any)._isStaticInstance ? HttpClient.globalControllers : this.controllers;
-      const existingCtrl = mapAnon.get(ANONYMOUS_KEY);
+    // timeout, retry and controlKey are handled here and should not be passed to fetch API
+    const timeout = interceptedOptions.timeout;
+    const retry = resolveRetryConfig(interceptedOptions.retry);
+    const currentControlKey: string | undefined = interceptedOptions.controlKey;
+    const externalSignal = interceptedOptions.signal ?? undefined;
+    const priority = interceptedOptions.priority;
+    delete interceptedOptions.priority;
+    // "high" and "low" double as the fetch priority hint
+    if (priority === "high" || priority === "low") {
+      (interceptedOptions as RequestInit).priority = priority;
+    }
+    delete (interceptedOptions as any).timeout;
+    delete (interceptedOptions as any).retry;
+    delete (interceptedOptions as any).controlKey;
+
+    // The registered controller lives for the whole request (all attempts) and
+    // is what cancelRequest / cancelAllRequests abort.
+    const map: Map<string, AbortController> = (this as any)._isStaticInstance ? HttpClient.globalControllers : this.controllers;
+    let controller: AbortController;
+
+    // Handle controlKey registration (no duplicates)
+    if (currentControlKey && replayController) {
+      // The original request kept its key registered, so cancelling it also stops the replay
+      controller = replayController;
+    } else if (currentControlKey) {
+      if (map.has(currentControlKey)) {
+        throw new ConfigError(`controlKey '${currentControlKey}' is already in use.`);
+      }
+      controller = new AbortController();
+      map.set(currentControlKey, controller);
+    } else {
+      // Handle requests without a controlKey by using a shared anonymous key
+      const existingCtrl = map.get(ANONYMOUS_KEY);
       if (existingCtrl) {
-        // Reuse existing controller
-        interceptedOptions.signal = existingCtrl.signal;
         controller = existingCtrl;
       } else {
-        if (!controller) {
-          controller = new AbortController();
-          interceptedOptions.signal = controller.signal;
-        }
-        mapAnon.set(ANONYMOUS_KEY, controller);
+        controller = new AbortController();
+        map.set(ANONYMOUS_KEY, controller);
       }
     }
 
-    try {
-      const response = await fetch(fullUrl, interceptedOptions);
-      if (timeoutId) globalThis.clearTimeout(timeoutId);
-      // Remove controlKey mapping after completion
-      if (currentControlKey) {
-        const map = this.controllers.has(currentControlKey) ? this.controllers : HttpClient.globalControllers;
+    // A stream body is used up by the first attempt, so a retry could not send it again
+    const canRetry = !!retry && retry.methods.some((m) => m.toUpperCase() === method) && !isStream(interceptedOptions.body);
+    // Like auth, the instance limits and circuit breaker don't apply to isolated requests
+    const limiter = interceptedOptions.isolated ? undefined : this.limiter;
+    const breaker = interceptedOptions.isolated ? undefined : this.breaker;
+    const circuitKey = breaker?.keyFor(fullUrl);
+
+    const errorConfig: HttpErrorConfig = {
+      url: fullUrl,
+      options: interceptedOptions,
+      method: interceptedOptions.method ?? HTTP_METHODS.GET,
+      body: interceptedOptions.body,
+    };
+
+    // One network exchange: every attempt plus reading the body. `signals` abort the
+    // current attempt, `cancelSignal` aborts the backoff between attempts.
+    // `timeout` is left out for shared requests, whose callers each apply their own.
+    const perform = async (
+      signals: (AbortSignal | undefined)[],
+      cancelSignal: AbortSignal,
+      timeout?: number
+    ): Promise<Exchange> => {
+      const startedAt = Date.now();
+      const isCancelled = () => signals.some((signal) => signal?.aborted);
+
+      // Returns the delay before the next attempt, or undefined when no retry should happen
+      const nextDelay = (attempt: number, response?: Response): number | undefined => {
+        if (!canRetry || !retry || attempt > retry.retries || isCancelled()) return undefined;
+        let delay = computeBackoff(retry, attempt);
+        if (response && retry.respectRetryAfter && RETRY_AFTER_STATUSES.includes(response.status)) {
+          delay = parseRetryAfter(response.headers.get("retry-after")) ?? delay;
+        }
+        if (retry.maxElapsedTime !== undefined && Date.now() - startedAt + delay > retry.maxElapsedTime) {
+          return undefined;
+        }
+        return delay;
+      };
+
+      // Streamed bodies keep the attempt's timeout and cancellation until the caller has read them
+      const keepOpen = isStreamingResponseType(responseType);
+      let attempt = 0;
+      let response: Response;
+      let release: () => void;
+      // Limiter slot held by the current attempt until its body has been read
+      let slot: ReleaseSlot | undefined;
+      let handedOff = false;
+      try {
+        for (;;) {
+          attempt++;
+          let attemptTimeout = timeout;
+          if (limiter) {
+            const queuedAt = Date.now();
+            slot = await limiter.acquire(fullUrl, { signals, timeout, config: errorConfig, priority, key: currentControlKey });
+            // Time spent in the queue counts towards the attempt's timeout
+            if (typeof timeout === "number" && timeout > 0) {
+              attemptTimeout = Math.max(1, timeout - (Date.now() - queuedAt));
+            }
+          }
+          const attemptOptions: HttpRequestOptions = upload
+            ? { ...interceptedOptions, body: upload.createBody(), duplex: "half" }
+            : interceptedOptions;
+          // Throws CircuitOpenError without calling fetch while the circuit is open
+          const recordOutcome: CircuitRecorder | undefined = breaker && circuitKey !== undefined
+            ? breaker.enter(circuitKey, errorConfig)
+            : undefined;
+          try {
+            ({ response, release } = await this.sendAttempt(fullUrl, attemptOptions, signals, attemptTimeout, currentControlKey, adapter, adapterContext));
+          } catch (error) {
+            recordOutcome?.({ error });
+            // Only transport failures are worth another attempt; adapter misuse (ConfigError) is not
+            const transient = error instanceof NetworkError || error instanceof TimeoutError;
+            const delay = retry?.retryOnNetworkError && transient ? nextDelay(attempt) : undefined;
+            if (delay === undefined) throw error;
+            slot?.();
+            await sleep(delay, cancelSignal);
+            continue;
+          }
+          recordOutcome?.({ response });
+          // Statuses accepted by validateStatus are results, not failures worth retrying
+          if (!validateStatus(response.status) && retry?.statusCodes.includes(response.status)) {
+            const delay = nextDelay(attempt, response);
+            if (delay !== undefined) {
+              // Release the unread body before trying again
+              release();
+              slot?.();
+              await response.body?.cancel().catch(() => undefined);
+              await sleep(delay, cancelSignal);
+              continue;
+            }
+          }
+          break;
+        }
+
+        if (onUploadProgress && !upload && !nativeProgress && interceptedOptions.body != null) {
+          reportUploadComplete(interceptedOptions.body, onUploadProgress);
+        }
+
+        const source = onDownloadProgress && !nativeProgress ? trackDownload(response, onDownloadProgress) : response;
+        if (keepOpen && validateStatus(response.status) && method !== HTTP_METHODS.HEAD) {
+          const streamSlot = slot;
+          const body = releaseOnSettle(
+            source.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() }),
+            () => {
+              release();
+              streamSlot?.();
+              if (currentControlKey && map.get(currentControlKey) === controller) {
+                map.delete(currentControlKey);
+              }
+            }
+          );
+          handedOff = true;
+          const data = responseType === "stream" ? body : new ResponseStream(body, responseType as StreamMode);
+          return { response, parsed: { data }, attempt, open: true };
+        }
+        release();
+
+        // A 304 has no body to read; error bodies are buffered even in streaming mode
+        const parsed = response.status === 304
+          ? { data: undefined }
+          : await HttpClient.parseResponseBody(source, method, keepOpen ? undefined : responseType);
+        return { response, parsed, attempt };
+      } finally {
+        if (!handedOff) slot?.();
+      }
+    };
+
+    // Concurrent identical requests share a single exchange. A request with its own adapter,
+    // status check or progress callbacks needs an exchange of its own.
+    const sharable = dedupeOption !== false
+      && !isStreamingResponseType(responseType)
+      && !options?.adapter
+      && !options?.validateStatus
+      && !onUploadProgress
+      && !onDownloadProgress;
+    const dedupeKey = this.inFlight && sharable
+      ? this.inFlight.keyFor(method, fullUrl, interceptedOptions.headers, responseType)
+      : undefined;
+
+    // Remove the controlKey mapping once the request is done with it
+    const releaseKey = () => {
+      if (currentControlKey && map.get(currentControlKey) === controller) {
         map.delete(currentControlKey);
       }
-      const data = await HttpClient.parseResponseBody(response);
+    };
+
+    try {
+      const { response, parsed, attempt, open } = this.inFlight && dedupeKey
+        ? await this.inFlight.join(
+          dedupeKey,
+          (signal) => perform([signal], signal),
+          [controller.signal, externalSignal],
+          timeout,
+          () => new TimeoutError(timeout!, { config: errorConfig })
+        )
+        : await perform([controller.signal, externalSignal], controller.signal, timeout);
+
+      // Not Modified: answer from the cache and extend the entry's lifetime
+      if (response.status === 304 && cache && cached) {
+        releaseKey();
+        const notModifiedHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          notModifiedHeaders[key] = value;
+        });
+        const refreshed = await cache.refresh(cached, notModifiedHeaders, cacheOptions);
+        const fromCache = this.responseFromCache<T>(refreshed, fullUrl, interceptedOptions, attempt);
+        return await this.executeResponseInterceptors(await this.shapeResponse(fromCache, schema, jsonApi));
+      }
+
       const headers: Record<string, string> = {};
       
       response.headers.forEach((value, key) => {
         headers[key] = value;
       });
       
+      // Shared results are copied (never changed in place) so callers can't see each other's changes
+      const received = dedupeKey ? cloneData(parsed.data) : parsed.data;
+      const data = parsed.parseError
+        ? received
+        : applyResponseTransformers(received, headers, response.status, transformResponse);
       const result: HttpClientResponse<T> = {
         data: data as T,
         status: response.status,
         statusText: response.statusText,
         headers,
-        config: {
-          url: fullUrl,
-          options: interceptedOptions,
-          method: interceptedOptions?.method ?? HTTP_METHODS.GET,
-          body: interceptedOptions?.body,
-        },
+        config: { ...errorConfig, attempt },
         request: response,
       };
+      if (parsed.rawBody !== undefined) {
+        result.rawBody = parsed.rawBody;
+      }
       
-      if (!response.ok) {
-        const error = new Error(
-          `Request failed with status code ${response.status}`
-        ) as HttpClientError;
-        error.response = result;
-        throw error;
+      if (!validateStatus(response.status)) {
+        throw isProblemDetails(headers, result.data)
+          ? new ProblemDetailsError(result as HttpClientResponse<ProblemDetails>)
+          : new HttpStatusError(result);
+      }
+
+      // Remove controlKey mapping after completion (streamed bodies do this once they settle).
+      // Error statuses keep it until the catch below, since a token refresh holds on to it.
+      if (!open) {
+        releaseKey();
+      }
+
+      if (parsed.parseError) {
+        throw new ParseError(`Failed to parse response body as JSON: ${(parsed.parseError as Error).message}`, {
+          response: result,
+          rawBody: parsed.rawBody,
+          cause: parsed.parseError,
+        });
+      }
+
+      // Validated before caching so data that breaks the contract is never stored
+      const validated = await this.shapeResponse(result, schema, jsonApi);
+
+      if (cache && cacheKey && response.status === 200 && !isStreamingResponseType(responseType) && responseType !== "none") {
+        await cache.save(cacheKey, {
+          url: fullUrl,
+          method,
+          data: cloneData(data),
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+        }, cacheOptions, interceptedOptions.headers);
       }
       
       // Execute response interceptors
-      return await this.executeResponseInterceptors(result);
+      return await this.executeResponseInterceptors(validated);
     } catch (error) {
-      // Ensure we clean up controllers even on error
-      if (currentControlKey) {
-        const map = this.controllers.has(currentControlKey) ? this.controllers : HttpClient.globalControllers;
-        map.delete(currentControlKey);
+      // Aborts that surface as foreign errors or as shared cancellation reasons
+      // become this request's own CancelError
+      let failure = error;
+      const cancelled = controller.signal.aborted || !!externalSignal?.aborted;
+      if ((isCancel(error) && !error.config) || (cancelled && !isHttpClientError(error))) {
+        failure = cancelErrorFor(controller.signal.aborted ? controller.signal : externalSignal, errorConfig, currentControlKey);
       }
+      // Refresh the token (once for all concurrent 401s) and replay the request
+      if (auth && !isAuthReplay && failure instanceof HttpStatusError && auth.shouldRefresh(failure)) {
+        try {
+          await untilAborted(auth.refresh(authToken), controller.signal);
+        } catch {
+          releaseKey();
+          return await this.executeErrorInterceptors(
+            controller.signal.aborted ? cancelErrorFor(controller.signal, errorConfig, currentControlKey) : failure
+          );
+        }
+        return this.request<T>(url, { ...options, [AUTH_REPLAY]: controller } as ExtendedRequestInit<T>).catch((replayError) => {
+          releaseKey();
+          throw replayError;
+        });
+      }
+      // Ensure we clean up controllers even on error (a refresh above keeps them until its replay settles)
+      releaseKey();
       // Execute error interceptors
-      return await this.executeErrorInterceptors(error as HttpClientError);
+      return await this.executeErrorInterceptors(failure as HttpClientError);
+    }
+  }
+
+  /**
+   * Flatten a JSON:API document, then replace the response data with the schema's output
+   * (or throw ValidationError).
+   */
+  private async shapeResponse<T>(
+    response: HttpClientResponse<T>,
+    schema?: ResponseSchema,
+    jsonApi?: boolean
+  ): Promise<HttpClientResponse<T>> {
+    const shaped = jsonApi ? applyJsonApi(response) : response;
+    return schema ? ((await validateResponse(shaped, schema)) as HttpClientResponse<T>) : shaped;
+  }
+
+  /**
+   * Hand out a cached response, shaped first since the cache stores the data as it was received.
+   */
+  private async answerFromCache<T>(
+    response: HttpClientResponse<T>,
+    schema?: ResponseSchema,
+    jsonApi?: boolean
+  ): Promise<HttpClientResponse<T>> {
+    let validated: HttpClientResponse<T>;
+    try {
+      validated = await this.shapeResponse(response, schema, jsonApi);
+    } catch (error) {
+      return this.executeErrorInterceptors(error as HttpClientError);
     }
+    return this.executeResponseInterceptors(validated);
+  }
+
+  /**
+   * Build a normal HttpClientResponse from a cache entry.
+   */
+  private responseFromCache<T>(
+    entry: CacheEntry,
+    url: string,
+    options: HttpRequestOptions,
+    attempt: number
+  ): HttpClientResponse<T> {
+    const request = typeof Response !== "undefined"
+      ? new Response(null, { status: entry.status, statusText: entry.statusText, headers: entry.headers })
+      : (undefined as unknown as Response);
+    return {
+      data: cloneData(entry.data) as T,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: { ...entry.headers },
+      config: {
+        url,
+        options,
+        method: options.method ?? HTTP_METHODS.GET,
+        body: options.body,
+        attempt,
+      },
+      request,
+      fromCache: true,
+    };
+  }
+
+  /**
+   * Perform a single call through `adapter` (fetch by default) with a fresh
+   * AbortController that follows the given cancellation signals and aborts on
+   * its own after `timeout` ms. The
+   * caller must invoke `release` once it no longer needs the timeout and
+   * cancellation (right away, or after streaming the body).
+   */
+  private async sendAttempt(
+    url: string,
+    options: HttpRequestOptions,
+    signals: (AbortSignal | undefined)[],
+    timeout?: number,
+    controlKey?: string,
+    adapter: HttpAdapter = fetchAdapter,
+    context?: HttpAdapterContext
+  ): Promise<{ response: Response; release: () => void }> {
+    const config: HttpErrorConfig = { url, options, method: options.method ?? HTTP_METHODS.GET, body: options.body };
+    const attemptController = new AbortController();
+    const linked = signals.filter((s): s is AbortSignal => !!s);
+    // The abort reason is what fetch rejects with and what a streamed body errors with
+    const abort = () => {
+      const source = linked.find((signal) => signal.aborted);
+      attemptController.abort(cancelErrorFor(source, config, controlKey));
+    };
+    for (const signal of linked) {
+      if (signal.aborted) abort();
+      else signal.addEventListener("abort", abort, { once: true });
+    }
+
+    let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
+    if (typeof timeout === "number" && timeout > 0) {
+      timeoutId = globalThis.setTimeout(() => attemptController.abort(new TimeoutError(timeout, { config })), timeout);
+    }
+
+    const release = () => {
+      if (timeoutId) globalThis.clearTimeout(timeoutId);
+      linked.forEach((signal) => signal.removeEventListener("abort", abort));
+    };
+    try {
+      // By now `priority` only holds the fetch hint ("high" / "low")
+      const init = { ...options, signal: attemptController.signal } as RequestInit;
+      const response = await adapter(url, init, context);
+      return { response, release };
+    } catch (error) {
+      release();
+      // Aborted on our side: report why instead of the runtime's AbortError
+      if (attemptController.signal.aborted) throw attemptController.signal.reason;
+      if (isHttpClientError(error)) throw error;
+      throw new NetworkError((error as Error)?.message ?? "Network request failed", { config, cause: error });
+    }
+  }
+
+  /**
+   * Queue depth and wait times for an instance created with `maxConcurrent` or `rateLimit`;
+   * undefined for instances without limits.
+   */
+  getQueueStats(): LimiterStats | undefined {
+    return this.limiter?.getStats();
+  }
+
+  /**
+   * State of the circuit that requests to `url` go through. Always "closed" without a circuit breaker.
+   */
+  getCircuitState(url: string): CircuitState {
+    if (!this.breaker) return "closed";
+    return this.breaker.state(this.breaker.keyFor(url));
   }
 
   async get<T = unknown>(
     url: string,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     return this.request<T>(url, { ...options, method: HTTP_METHODS.GET });
   }
@@ -531,33 +1753,31 @@ export class HttpClient {
     method: string,
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
-    const opts = this.mergeConfig(options as ExtendedRequestInit);
-    opts.method = method;
-    
-    if (body !== undefined) {
-      opts.body = JSON.stringify(body);
-      if (!opts.headers["Content-Type"]) {
-        opts.headers["Content-Type"] = CONTENT_TYPES.JSON;
-      }
-    }
-    
-    return this.request<T>(url, opts);
+    return this.request<T>(url, { ...options, method, data: body } as ExtendedRequestInit<T>);
   }
 
   async post<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     return this.requestWithBody<T>(HTTP_METHODS.POST, url, body, options);
   }
 
+  async put<T = unknown>(
+    url: string,
+    body?: unknown,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    return this.requestWithBody<T>(HTTP_METHODS.PUT, url, body, options);
+  }
+
   async patch<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     return this.requestWithBody<T>(HTTP_METHODS.PATCH, url, body, options);
   }
@@ -565,14 +1785,155 @@ export class HttpClient {
   async delete<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     return this.requestWithBody<T>(HTTP_METHODS.DELETE, url, body, options);
   }
 
+  async head<T = unknown>(
+    url: string,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    return this.request<T>(url, { ...options, method: HTTP_METHODS.HEAD });
+  }
+
+  async options<T = unknown>(
+    url: string,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    return this.request<T>(url, { ...options, method: HTTP_METHODS.OPTIONS });
+  }
+
+  /**
+   * Run a GraphQL operation against the instance's endpoint (default "/graphql"). Resolves
+   * with `data` set to the result data; a result carrying `errors` rejects with GraphQLError,
+   * which also reaches the error interceptors. Instance headers and interceptors apply.
+   */
+  graphql<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables>,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResponse<TData>> {
+    this.graphqlExecutor ??= new GraphQLExecutor(
+      this.graphqlConfig ?? {},
+      // GraphQL results also have a `data` member; they are never JSON:API documents
+      (endpoint, body, init) => this.post(endpoint, body, { ...init, jsonApi: false }),
+      (error) => this.executeErrorInterceptors(error)
+    );
+    return this.graphqlExecutor.execute(document, variables, options);
+  }
+
+  /**
+   * Open a Server-Sent Events stream. Each connection is a normal request (headers,
+   * params and interceptors apply) read line by line. The instance `timeout` and
+   * `retry` policy are not used; reconnects follow the SSE options instead.
+   */
+  sse(url: string, options: SSEOptions = {}): EventStream {
+    const { reconnect, retryDelay, maxRetries, lastEventId, controlKey, signal, ...requestOptions } = options;
+    const { controller, release } = this.registerController(controlKey, signal);
+
+    const requestHeaders = requestOptions.headers instanceof Headers
+      ? this.convertHeadersToObject(requestOptions.headers)
+      : Array.isArray(requestOptions.headers)
+        ? Object.fromEntries(requestOptions.headers)
+        : (requestOptions.headers as Record<string, string> | undefined);
+
+    const connect = async (id: string | undefined, connectionSignal: AbortSignal) => {
+      const headers: Record<string, string> = { Accept: "text/event-stream", ...requestHeaders };
+      if (id) headers["Last-Event-ID"] = id;
+      const response = await this.request<ResponseStream<string>>(url, {
+        ...requestOptions,
+        headers,
+        signal: connectionSignal,
+        timeout: requestOptions.timeout,
+        retry: false,
+        responseType: "lines",
+        responseCache: false,
+        dedupe: false,
+      } as ExtendedRequestInit<ResponseStream<string>>);
+
+      // 204 No Content tells the client to stop reconnecting
+      if (response.status === 204) {
+        await response.data.cancel();
+        return undefined;
+      }
+      const contentType = response.headers["content-type"] ?? "";
+      if (!contentType.toLowerCase().startsWith("text/event-stream")) {
+        await response.data.cancel();
+        throw new HttpClientError(
+          `Expected a text/event-stream response but received '${contentType}'.`,
+          "ERR_BAD_RESPONSE",
+          { response }
+        );
+      }
+      return response.data;
+    };
+
+    return new EventStream(connect, controller, { reconnect, retryDelay, maxRetries, lastEventId }, release);
+  }
+
+  /**
+   * Walk a paginated endpoint, fetching each page only when the previous one has been consumed.
+   * Every page is a normal request (instance options, params and interceptors apply) and
+   * `controlKey` cancels the whole walk. Iterate for items, or use `pages()` for the responses.
+   */
+  paginate<T = unknown, TPage = unknown>(url: string, options: PaginateOptions<T, TPage> = {}): Paginator<T, TPage> {
+    const { strategy, getNextRequest, items, maxPages, maxItems, controlKey, signal, params = {}, ...requestOptions } = options;
+    const { controller, release } = this.registerController(controlKey, signal);
+
+    // A page reached through another URL (a Link header) already carries its query, so neither the
+    // instance nor the first request's params are added; an explicit undefined keeps mergeConfig from it
+    const fetchPage = (page: Required<PageRequest>, pageSignal: AbortSignal) =>
+      this.request<TPage>(page.url, {
+        ...requestOptions,
+        params: page.url === url || Object.keys(page.params).length > 0 ? page.params : undefined,
+        signal: pageSignal,
+      } as ExtendedRequestInit<TPage>);
+
+    return new Paginator<T, TPage>(fetchPage, { url, params }, { strategy, getNextRequest, items, maxPages, maxItems }, controller, release);
+  }
+
+  /**
+   * Register a controller for a long-lived operation (a stream, a pagination walk) that spans
+   * several requests, so cancelRequest reaches it between requests too. `release` drops the key.
+   */
+  private registerController(controlKey?: string, signal?: AbortSignal | null): { controller: AbortController; release: () => void } {
+    const map: Map<string, AbortController> = (this as any)._isStaticInstance ? HttpClient.globalControllers : this.controllers;
+    const key = controlKey ?? HttpClient.generateControlKey();
+    if (map.has(key)) {
+      throw new ConfigError(`controlKey '${key}' is already in use.`);
+    }
+    const controller = new AbortController();
+    map.set(key, controller);
+    if (signal?.aborted) controller.abort();
+    else signal?.addEventListener("abort", () => controller.abort(), { once: true });
+    return {
+      controller,
+      release: () => {
+        if (map.get(key) === controller) map.delete(key);
+      },
+    };
+  }
+
+  /**
+   * Remove cached responses whose URL matches the pattern. Strings may use `*`
+   * wildcards and match either the full URL or its path (e.g. "/users/*").
+   * Resolves with the number of removed entries.
+   */
+  async invalidateCache(urlPattern: string | RegExp): Promise<number> {
+    return this.responseCache ? this.responseCache.invalidate(urlPattern) : 0;
+  }
+
+  /**
+   * Remove every cached response of this instance.
+   */
+  async clearCache(): Promise<void> {
+    await this.responseCache?.clear();
+  }
+
   // Internal helper to abort controllers for cleanup
   private _abortAllControllers() {
-    this.controllers.forEach((c) => c.abort());
+    this.controllers.forEach((c, key) => c.abort(cancelReasonFor(key)));
     this.controllers.clear();
   }
 
@@ -584,27 +1945,50 @@ export class HttpClient {
   // ---------------------------------------------------------------------------
   static async get<T = unknown>(
     url: string,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     const client = new HttpClient();
     (client as any)._isStaticInstance = true;
     return client.get<T>(url, options);
   }
 
+  static async request<T = unknown>(_config: HttpRequestConfig<T>): Promise<HttpClientResponse<T>>;
+  static async request<T = unknown>(_url: string, _options?: ExtendedRequestInit<T>): Promise<HttpClientResponse<T>>;
+  static async request<T = unknown>(
+    urlOrConfig: string | HttpRequestConfig<T>,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return typeof urlOrConfig === "string"
+      ? client.request<T>(urlOrConfig, options)
+      : client.request<T>(urlOrConfig);
+  }
+
   static async post<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     const client = new HttpClient();
     (client as any)._isStaticInstance = true;
     return client.post<T>(url, body, options);
   }
 
+  static async put<T = unknown>(
+    url: string,
+    body?: unknown,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.put<T>(url, body, options);
+  }
+
   static async patch<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     const client = new HttpClient();
     (client as any)._isStaticInstance = true;
@@ -614,18 +1998,59 @@ export class HttpClient {
   static async delete<T = unknown>(
     url: string,
     body?: unknown,
-    options?: RequestInit
+    options?: ExtendedRequestInit<T>
   ): Promise<HttpClientResponse<T>> {
     const client = new HttpClient();
     (client as any)._isStaticInstance = true;
     return client.delete<T>(url, body, options);
   }
 
+  static async head<T = unknown>(
+    url: string,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.head<T>(url, options);
+  }
+
+  static async options<T = unknown>(
+    url: string,
+    options?: ExtendedRequestInit<T>
+  ): Promise<HttpClientResponse<T>> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.options<T>(url, options);
+  }
+
+  static sse(url: string, options?: SSEOptions): EventStream {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.sse(url, options);
+  }
+
+  static paginate<T = unknown, TPage = unknown>(url: string, options?: PaginateOptions<T, TPage>): Paginator<T, TPage> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.paginate<T, TPage>(url, options);
+  }
+
+  static graphql<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables>,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResponse<TData>> {
+    const client = new HttpClient();
+    (client as any)._isStaticInstance = true;
+    return client.graphql<TData, TVariables>(document, variables, options);
+  }
+
   static cancelRequest(controlKey: string): void {
     // First look in global map
+    const reason = new CancelError(undefined, { controlKey });
     const ctrl = HttpClient.globalControllers.get(controlKey);
     if (ctrl) {
-      ctrl.abort();
+      ctrl.abort(reason);
       HttpClient.globalControllers.delete(controlKey);
       return;
     }
@@ -634,16 +2059,27 @@ export class HttpClient {
     for (const inst of HttpClient.allInstances) {
       const c = inst.controllers.get(controlKey);
       if (c) {
-        c.abort();
+        c.abort(reason);
         inst.controllers.delete(controlKey);
         break;
       }
     }
   }
 
+  /**
+   * Move a request that is waiting in an instance queue (see `maxConcurrent` / `rateLimit`)
+   * to a new priority. Returns false when no queued request uses that controlKey.
+   */
+  static setPriority(controlKey: string, priority: Priority): boolean {
+    for (const inst of HttpClient.allInstances) {
+      if (inst.limiter?.reprioritize(controlKey, priority)) return true;
+    }
+    return false;
+  }
+
   static cancelAllRequests(): void {
     // Abort global controllers
-    HttpClient.globalControllers.forEach((c) => c.abort());
+    HttpClient.globalControllers.forEach((c, key) => c.abort(cancelReasonFor(key)));
     HttpClient.globalControllers.clear();
 
     // Abort controllers in every instance
@@ -0,0 +1,177 @@
+import { HttpClient, HttpStatusError, MockAdapter, ProblemDetailsError, ValidationError, flattenJsonApi } from "./index";
+import type { JsonApiDocument, JsonApiResource } from "./index";
+
+const JSON_API = { "content-type": "application/vnd.api+json" };
+const PROBLEM = { "content-type": "application/problem+json; charset=utf-8" };
+
+const articles: JsonApiDocument = {
+  data: [
+    {
+      type: "articles",
+      id: "1",
+      attributes: { title: "JSON:API paints my bikeshed!" },
+      relationships: {
+        author: { data: { type: "people", id: "9" } },
+        comments: { data: [{ type: "comments", id: "5" }, { type: "comments", id: "12" }] },
+        tags: { links: { related: "/articles/1/tags" } },
+      },
+      links: { self: "/articles/1" },
+    },
+  ],
+  included: [
+    { type: "people", id: "9", attributes: { name: "Dan" }, relationships: { articles: { data: [{ type: "articles", id: "1" }] } } },
+    { type: "comments", id: "5", attributes: { body: "First!" }, relationships: { author: { data: null } } },
+  ],
+  links: { self: "/articles", next: "/articles?page[offset]=10" },
+  meta: { total: 21 },
+};
+
+describe("JSON:API", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should flatten resources and resolve relationships against included ones", () => {
+    const [article] = flattenJsonApi(articles) as JsonApiResource[];
+
+    expect(article).toMatchObject({ id: "1", type: "articles", title: "JSON:API paints my bikeshed!", links: { self: "/articles/1" } });
+    expect(article.author).toMatchObject({ id: "9", type: "people", name: "Dan" });
+    expect(article.comments).toEqual([
+      { id: "5", type: "comments", body: "First!", author: null },
+      // Not included, so only the identifier is known
+      { id: "12", type: "comments" },
+    ]);
+    expect(article).not.toHaveProperty("tags");
+    // Cycles point back at the same object
+    expect((article.author as JsonApiResource).articles as unknown[]).toContain(article);
+
+    expect(flattenJsonApi({ data: null })).toBeNull();
+    expect(flattenJsonApi({ data: { type: "people", id: "1", attributes: { links: "mine" }, links: { self: "/people/1" } } })).toEqual({
+      id: "1",
+      type: "people",
+      links: "mine",
+    });
+  });
+
+  it("should put the flattened data, links and meta on the response in JSON:API mode", async () => {
+    mock.onGet("/articles").reply(200, articles, JSON_API);
+    const api = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter, jsonApi: true });
+
+    const res = await api.get<JsonApiResource[]>("/articles");
+    expect(res.data.map((article) => article.title)).toEqual(["JSON:API paints my bikeshed!"]);
+    expect(res.links).toEqual({ self: "/articles", next: "/articles?page[offset]=10" });
+    expect(res.meta).toEqual({ total: 21 });
+
+    // A request can opt out and see the document as sent
+    const raw = await api.get<JsonApiDocument>("/articles", { jsonApi: false });
+    expect(raw.data).toEqual(articles);
+    expect(raw.links).toBeUndefined();
+  });
+
+  it("should leave documents without primary data and other bodies alone", async () => {
+    mock.onGet("/meta").reply(200, { meta: { version: 2 } }, JSON_API);
+    mock.onGet("/text").reply(200, "plain", { "content-type": "text/plain" });
+    const api = HttpClient.create({ adapter: mock.adapter });
+
+    const res = await api.get("/meta", { jsonApi: true });
+    expect(res.data).toEqual({ meta: { version: 2 } });
+    expect(res.meta).toEqual({ version: 2 });
+    expect((await api.get("/text", { jsonApi: true })).data).toBe("plain");
+  });
+
+  it("should flatten before the schema runs and on every cache hit", async () => {
+    mock.onGet("/articles").reply(200, articles, JSON_API);
+    const api = HttpClient.create({ adapter: mock.adapter, jsonApi: true, responseCache: { ttl: 60000 } });
+    const isList = (data: unknown): data is JsonApiResource[] => Array.isArray(data) && data.every((item) => "title" in item);
+
+    const first = await api.get("/articles", { schema: isList });
+    const second = await api.get("/articles", { schema: isList });
+    expect(second.fromCache).toBe(true);
+    expect(second.data).toEqual(first.data);
+    expect(second.meta).toEqual({ total: 21 });
+    expect(mock.history).toHaveLength(1);
+
+    await expect(api.get("/articles", { jsonApi: false, schema: isList })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("should not flatten GraphQL results", async () => {
+    mock.onPost("/graphql").reply(200, { data: { viewer: { id: "1" } } });
+    const api = HttpClient.create({ adapter: mock.adapter, jsonApi: true });
+
+    expect((await api.graphql("{ viewer { id } }")).data).toEqual({ viewer: { id: "1" } });
+  });
+});
+
+describe("Problem details", () => {
+  let mock: MockAdapter;
+  let api: HttpClient;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+    api = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should reject problem+json responses with a ProblemDetailsError", async () => {
+    mock.onPost("/transfers").reply(
+      403,
+      {
+        type: "https://example.com/probs/out-of-credit",
+        title: "You do not have enough credit.",
+        status: 403,
+        detail: "Your current balance is 30, but that costs 50.",
+        instance: "/account/12345/msgs/abc",
+        balance: 30,
+        accounts: ["/account/12345", "/account/67890"],
+      },
+      PROBLEM
+    );
+    const seen = jest.fn((e) => e);
+    api.interceptors.error.use(seen);
+
+    const err = await api.post("/transfers", { amount: 50 }).catch((e) => e);
+    expect(err).toBeInstanceOf(ProblemDetailsError);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err.code).toBe("ERR_BAD_STATUS");
+    expect(err.status).toBe(403);
+    expect(err.type).toBe("https://example.com/probs/out-of-credit");
+    expect(err.title).toBe("You do not have enough credit.");
+    expect(err.detail).toBe("Your current balance is 30, but that costs 50.");
+    expect(err.instance).toBe("/account/12345/msgs/abc");
+    expect(err.extensions).toEqual({ balance: 30, accounts: ["/account/12345", "/account/67890"] });
+    expect(err.message).toBe("Request failed with status code 403: Your current balance is 30, but that costs 50.");
+    expect(seen).toHaveBeenCalledWith(err);
+  });
+
+  it("should default the type and ignore members of the wrong type", async () => {
+    mock.onGet("/blank").reply(404, { title: "Not Found", detail: 42 }, PROBLEM);
+
+    const err = await api.get("/blank").catch((e) => e);
+    expect(err.type).toBe("about:blank");
+    expect(err.detail).toBeUndefined();
+    expect(err.extensions).toEqual({});
+    expect(err.message).toBe("Request failed with status code 404: Not Found");
+  });
+
+  it("should keep HttpStatusError for other error bodies", async () => {
+    mock.onGet("/json").reply(400, { title: "Bad" });
+    mock.onGet("/list").reply(400, [{ title: "Bad" }], PROBLEM);
+
+    for (const path of ["/json", "/list"]) {
+      const err = await api.get(path).catch((e) => e);
+      expect(err).toBeInstanceOf(HttpStatusError);
+      expect(err).not.toBeInstanceOf(ProblemDetailsError);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import type { HttpClientResponse } from "./index.js";
+
+// JSON:API 1.1 (https://jsonapi.org/format/), limited to what flattening reads
+
+export type JsonApiLink = string | { href: string; rel?: string; title?: string; type?: string; meta?: Record<string, unknown> } | null;
+
+export type JsonApiLinks = Record<string, JsonApiLink>;
+
+export interface JsonApiResourceIdentifier {
+  type: string;
+  id?: string;
+  lid?: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface JsonApiRelationship {
+  data?: JsonApiResourceIdentifier | JsonApiResourceIdentifier[] | null;
+  links?: JsonApiLinks;
+  meta?: Record<string, unknown>;
+}
+
+export interface JsonApiResourceObject extends JsonApiResourceIdentifier {
+  attributes?: Record<string, unknown>;
+  relationships?: Record<string, JsonApiRelationship>;
+  links?: JsonApiLinks;
+}
+
+export interface JsonApiDocument {
+  data?: JsonApiResourceObject | JsonApiResourceObject[] | null;
+  included?: JsonApiResourceObject[];
+  links?: JsonApiLinks;
+  meta?: Record<string, unknown>;
+  errors?: unknown[];
+  jsonapi?: Record<string, unknown>;
+}
+
+/**
+ * A resource flattened into one object: `id`, `type`, its attributes and its relationships,
+ * which point at the related resources (or bare `{ id, type }` when they were not included).
+ */
+export interface JsonApiResource {
+  id: string;
+  type: string;
+  [field: string]: unknown;
+}
+
+const keyOf = (resource: JsonApiResourceIdentifier) => `${resource.type}\u0000${resource.id ?? resource.lid}`;
+
+/**
+ * Flatten the primary data of a JSON:API document, resolving relationships against the
+ * document's resources. Related resources are shared objects, so cycles are preserved.
+ */
+export function flattenJsonApi(document: JsonApiDocument): JsonApiResource | JsonApiResource[] | null {
+  const primary = Array.isArray(document.data) ? document.data : document.data ? [document.data] : [];
+  const resources = [...primary, ...(document.included ?? [])];
+
+  // Create every object first so relationships can refer to each other
+  const flattened = new Map<string, JsonApiResource>();
+  for (const resource of resources) {
+    if (flattened.has(keyOf(resource))) continue;
+    const flat: JsonApiResource = { id: (resource.id ?? resource.lid)!, type: resource.type };
+    // Links and meta of a resource only show up where no attribute claims the name
+    if (resource.links) flat.links = resource.links;
+    if (resource.meta) flat.meta = resource.meta;
+    flattened.set(keyOf(resource), Object.assign(flat, resource.attributes));
+  }
+
+  const resolve = (identifier: JsonApiResourceIdentifier): JsonApiResource =>
+    flattened.get(keyOf(identifier)) ?? { id: (identifier.id ?? identifier.lid)!, type: identifier.type };
+  for (const resource of resources) {
+    const flat = flattened.get(keyOf(resource))!;
+    for (const [name, relationship] of Object.entries(resource.relationships ?? {})) {
+      // Relationships given only as links have nothing to resolve
+      if (!relationship || !("data" in relationship)) continue;
+      const { data } = relationship;
+      flat[name] = Array.isArray(data) ? data.map(resolve) : data ? resolve(data) : null;
+    }
+  }
+
+  if (Array.isArray(document.data)) return document.data.map((resource) => flattened.get(keyOf(resource))!);
+  return document.data ? flattened.get(keyOf(document.data))! : null;
+}
+
+/**
+ * Response with a JSON:API document's primary data flattened into `data`, and its top-level
+ * `links` and `meta` copied onto the response. Other bodies are left as they are.
+ */
+export function applyJsonApi<T>(response: HttpClientResponse<T>): HttpClientResponse<T> {
+  const document = response.data as JsonApiDocument | undefined;
+  if (!document || typeof document !== "object" || Array.isArray(document)) return response;
+  const result: HttpClientResponse<T> = { ...response };
+  if ("data" in document) result.data = flattenJsonApi(document) as T;
+  if (document.links) result.links = document.links;
+  if (document.meta) result.meta = document.meta;
+  return result;
+}
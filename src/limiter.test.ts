@@ -0,0 +1,200 @@
+import { CancelError, HttpClient, ResponseStream, TimeoutError } from "./index";
+import { deferredFetch, jsonResponse, tick } from "./test-helpers";
+
+describe("Rate limiting and concurrency", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should cap concurrent requests and start queued ones as slots free up", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", maxConcurrent: 2 });
+    const { spy, pending } = deferredFetch();
+
+    const calls = [1, 2, 3, 4].map((n) => client.get(`/items/${n}`));
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(client.getQueueStats()).toMatchObject({ active: 2, queued: 2, started: 2 });
+
+    pending[0].resolve(jsonResponse({ n: 1 }));
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(pending[2].url).toBe("https://api.example.com/items/3");
+
+    pending[1].resolve(jsonResponse({ n: 2 }));
+    await tick();
+    pending[2].resolve(jsonResponse({ n: 3 }));
+    pending[3].resolve(jsonResponse({ n: 4 }));
+    const results = await Promise.all(calls);
+
+    expect(results.map((r) => (r.data as { n: number }).n)).toEqual([1, 2, 3, 4]);
+    expect(client.getQueueStats()).toMatchObject({ active: 0, queued: 0, started: 4 });
+    expect(HttpClient.create().getQueueStats()).toBeUndefined();
+  });
+
+  it("should spread requests over the interval with a token bucket", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ rateLimit: { requests: 2, interval: 1000 } });
+    const spy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}));
+
+    const calls = [1, 2, 3, 4].map((n) => client.get(`https://api.example.com/${n}`));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(spy).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(spy).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(spy).toHaveBeenCalledTimes(4);
+
+    await Promise.all(calls);
+    const stats = client.getQueueStats();
+    expect(stats).toMatchObject({ started: 4, delayed: 2, maxWait: 1000 });
+    expect(stats?.averageWait).toBe(375);
+  });
+
+  it("should keep separate buckets per host", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ rateLimit: { requests: 1, interval: 1000, perHost: true } });
+    const spy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}));
+
+    const calls = [
+      client.get("https://a.example.com/1"),
+      client.get("https://a.example.com/2"),
+      client.get("https://b.example.com/1"),
+    ];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(spy.mock.calls.map(([url]) => url)).toEqual(["https://a.example.com/1", "https://b.example.com/1"]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(spy).toHaveBeenCalledTimes(3);
+    await Promise.all(calls);
+  });
+
+  it("should time out requests that wait in the queue too long", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ maxConcurrent: 1 });
+    const { spy, pending } = deferredFetch();
+
+    const first = client.get("https://api.example.com/slow");
+    const queued = client.get("https://api.example.com/next", { timeout: 100 } as any).catch((e) => e);
+    await jest.advanceTimersByTimeAsync(100);
+
+    const err = await queued;
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.config.url).toBe("https://api.example.com/next");
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(client.getQueueStats()?.queued).toBe(0);
+
+    pending[0].resolve(jsonResponse({}));
+    await first;
+  });
+
+  it("should let controlKey and cancelAllRequests cancel queued requests", async () => {
+    const client = HttpClient.create({ maxConcurrent: 1 });
+    const { spy } = deferredFetch();
+
+    const first = client.get("https://api.example.com/1").catch((e) => e);
+    const keyed = client.get("https://api.example.com/2", { controlKey: "queued-job" } as any).catch((e) => e);
+    const anonymous = client.get("https://api.example.com/3").catch((e) => e);
+    await tick();
+
+    HttpClient.cancelRequest("queued-job");
+    const keyedErr = await keyed;
+    expect(keyedErr).toBeInstanceOf(CancelError);
+    expect(keyedErr.controlKey).toBe("queued-job");
+    expect(client.getQueueStats()?.queued).toBe(1);
+
+    HttpClient.cancelAllRequests();
+    expect(await first).toBeInstanceOf(CancelError);
+    expect(await anonymous).toBeInstanceOf(CancelError);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(client.getQueueStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it("should hold the slot of a streamed response until its body is consumed", async () => {
+    const client = HttpClient.create({ maxConcurrent: 1 });
+    const spy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(new Response("a\nb\n"))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const streamed = await client.get<ResponseStream<string>>("https://api.example.com/log", { responseType: "lines" } as any);
+    const next = client.get("https://api.example.com/after");
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    expect(await streamed.data.toArray()).toEqual(["a", "b"]);
+    await next;
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("Request priority", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Resolves in-flight requests one at a time and records the order they were sent in
+  async function drainInOrder(pending: Array<{ url: string; resolve: (_res: Response) => void }>, count: number) {
+    for (let i = 0; i < count; i++) {
+      await tick();
+      pending[i].resolve(jsonResponse({}));
+    }
+    return pending.map((p) => new URL(p.url).pathname);
+  }
+
+  it("should start queued requests by priority, then in arrival order", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", maxConcurrent: 1 });
+    const { pending } = deferredFetch();
+
+    const calls = [
+      client.get("/first"),
+      client.get("/beacon", { priority: "low" }),
+      client.get("/prefetch"),
+      client.get("/profile", { priority: "high" }),
+      client.get("/critical", { priority: 5 }),
+      client.get("/menu", { priority: "high" }),
+    ];
+
+    expect(await drainInOrder(pending, calls.length)).toEqual([
+      "/first",
+      "/critical",
+      "/profile",
+      "/menu",
+      "/prefetch",
+      "/beacon",
+    ]);
+    await Promise.all(calls);
+  });
+
+  it("should reprioritize a queued request through its controlKey", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", maxConcurrent: 1 });
+    const { pending } = deferredFetch();
+
+    const calls = [
+      client.get("/first", { controlKey: "first" }),
+      client.get("/report"),
+      client.get("/thumbnail", { controlKey: "thumb-7", priority: "low" }),
+    ];
+    await tick();
+    expect(HttpClient.setPriority("thumb-7", "high")).toBe(true);
+    expect(HttpClient.setPriority("first", "high")).toBe(false);
+    expect(HttpClient.setPriority("missing", 1)).toBe(false);
+
+    expect(await drainInOrder(pending, calls.length)).toEqual(["/first", "/thumbnail", "/report"]);
+    await Promise.all(calls);
+  });
+
+  it("should pass high and low on to fetch as its priority hint", async () => {
+    const client = HttpClient.create({ maxConcurrent: 2, priority: "low" });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => jsonResponse({}));
+
+    await client.get("https://api.example.com/a");
+    await client.get("https://api.example.com/b", { priority: "high" });
+    await client.get("https://api.example.com/c", { priority: 3 });
+    await client.get("https://api.example.com/d", { priority: "normal" });
+
+    expect(fetchSpy.mock.calls.map(([, init]: any) => init.priority)).toEqual(["low", "high", undefined, undefined]);
+  });
+});
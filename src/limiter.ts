@@ -0,0 +1,292 @@
+import { TimeoutError } from "./errors.js";
+import type { HttpErrorConfig } from "./errors.js";
+
+/**
+ * Token-bucket limit on how many requests an instance starts per interval.
+ */
+export interface RateLimitConfig {
+  /**
+   * Requests allowed per interval; also the largest burst.
+   */
+  requests: number;
+  /**
+   * Interval length in milliseconds (default 1000).
+   */
+  interval?: number;
+  /**
+   * Keep a separate bucket for every host instead of one for the whole instance.
+   */
+  perHost?: boolean;
+}
+
+/**
+ * Scheduling priority of a queued request: a level, or any number where higher runs
+ * first ("high" = 1, "normal" = 0, "low" = -1). "auto", the fetch default, means "normal".
+ */
+export type Priority = "high" | "normal" | "low" | "auto" | number;
+
+/**
+ * Snapshot of an instance's request queue.
+ */
+export interface LimiterStats {
+  /**
+   * Requests currently holding a slot (sending or reading their body).
+   */
+  active: number;
+  /**
+   * Requests waiting for a slot or a token.
+   */
+  queued: number;
+  /**
+   * Requests that have been granted a slot so far.
+   */
+  started: number;
+  /**
+   * How many of those had to wait.
+   */
+  delayed: number;
+  /**
+   * Average wait in milliseconds over every started request.
+   */
+  averageWait: number;
+  /**
+   * Longest wait in milliseconds.
+   */
+  maxWait: number;
+}
+
+export interface AcquireOptions {
+  /**
+   * Cancellation signals; the wait rejects with the reason of the first one to abort.
+   */
+  signals: (AbortSignal | undefined)[];
+  /**
+   * Maximum wait in milliseconds before rejecting with a TimeoutError.
+   */
+  timeout?: number;
+  /**
+   * Request description attached to the TimeoutError.
+   */
+  config?: HttpErrorConfig;
+  /**
+   * Position in the queue relative to other waiting requests (default "normal").
+   */
+  priority?: Priority;
+  /**
+   * controlKey of the request, used to reprioritize it while it waits.
+   */
+  key?: string;
+}
+
+interface Waiter {
+  host: string;
+  priority: number;
+  key?: string;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Releases a slot taken with `acquire`. Calling it more than once has no effect.
+ */
+export type ReleaseSlot = () => void;
+
+const PRIORITY_LEVELS: Record<string, number> = { high: 1, normal: 0, auto: 0, low: -1 };
+
+function priorityValue(priority: Priority | undefined): number {
+  if (typeof priority === "number") return priority;
+  return PRIORITY_LEVELS[priority ?? "normal"] ?? 0;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Concurrency cap plus token-bucket rate limit shared by every request of an instance.
+ * Requests that cannot start right away wait ordered by priority, then arrival; with
+ * per-host buckets a request for an exhausted host does not hold up the others.
+ */
+export class RequestLimiter {
+  private readonly maxConcurrent: number;
+  private readonly rateLimit?: Required<RateLimitConfig>;
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly queue: Waiter[] = [];
+  private active = 0;
+  private timer?: ReturnType<typeof globalThis.setTimeout>;
+  private started = 0;
+  private delayed = 0;
+  private totalWait = 0;
+  private maxWait = 0;
+
+  constructor(maxConcurrent?: number, rateLimit?: RateLimitConfig) {
+    this.maxConcurrent = maxConcurrent && maxConcurrent > 0 ? maxConcurrent : Infinity;
+    if (rateLimit) {
+      this.rateLimit = { interval: 1000, perHost: false, ...rateLimit };
+    }
+  }
+
+  /**
+   * Wait for a slot to send a request to `url`. Resolves with the function that frees it.
+   */
+  acquire(url: string, options: AcquireOptions): Promise<ReleaseSlot> {
+    const host = this.rateLimit?.perHost ? hostOf(url) : "";
+    const enqueuedAt = Date.now();
+    if (this.queue.length === 0 && this.active < this.maxConcurrent && this.takeToken(host, enqueuedAt)) {
+      return Promise.resolve(this.start(enqueuedAt));
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const signals = options.signals.filter((s): s is AbortSignal => !!s);
+      let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
+      const cleanup = () => {
+        if (timeoutId) globalThis.clearTimeout(timeoutId);
+        signals.forEach((signal) => signal.removeEventListener("abort", onAbort));
+      };
+      const leave = (reason: unknown) => {
+        const index = this.queue.indexOf(waiter);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        cleanup();
+        reject(reason);
+        // A request at the head may have been blocking others
+        this.drain();
+      };
+      const onAbort = () => leave(signals.find((signal) => signal.aborted)?.reason);
+      const waiter: Waiter = {
+        host,
+        priority: priorityValue(options.priority),
+        key: options.key,
+        enqueuedAt,
+        grant: () => {
+          cleanup();
+          resolve(this.start(enqueuedAt));
+        },
+      };
+
+      const aborted = signals.find((signal) => signal.aborted);
+      if (aborted) {
+        reject(aborted.reason);
+        return;
+      }
+      this.enqueue(waiter);
+      signals.forEach((signal) => signal.addEventListener("abort", onAbort, { once: true }));
+      if (typeof options.timeout === "number" && options.timeout > 0) {
+        const timeout = options.timeout;
+        timeoutId = globalThis.setTimeout(() => leave(new TimeoutError(timeout, { config: options.config })), timeout);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Change the priority of the waiting request registered under `key`. Returns false when
+   * no such request is queued (it may already have started).
+   */
+  reprioritize(key: string, priority: Priority): boolean {
+    const index = this.queue.findIndex((waiter) => waiter.key === key);
+    if (index === -1) return false;
+    const [waiter] = this.queue.splice(index, 1);
+    waiter.priority = priorityValue(priority);
+    this.enqueue(waiter);
+    this.drain();
+    return true;
+  }
+
+  getStats(): LimiterStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      started: this.started,
+      delayed: this.delayed,
+      averageWait: this.started ? this.totalWait / this.started : 0,
+      maxWait: this.maxWait,
+    };
+  }
+
+  // Behind every waiter of the same or higher priority
+  private enqueue(waiter: Waiter): void {
+    const index = this.queue.findIndex((queued) => queued.priority < waiter.priority);
+    if (index === -1) this.queue.push(waiter);
+    else this.queue.splice(index, 0, waiter);
+  }
+
+  private start(enqueuedAt: number): ReleaseSlot {
+    const waited = Date.now() - enqueuedAt;
+    this.active++;
+    this.started++;
+    this.totalWait += waited;
+    this.maxWait = Math.max(this.maxWait, waited);
+    if (waited > 0) this.delayed++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Start every queued request that has both a free slot and a token.
+   */
+  private drain(): void {
+    if (this.timer) {
+      globalThis.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const now = Date.now();
+    let index = 0;
+    while (index < this.queue.length && this.active < this.maxConcurrent) {
+      const waiter = this.queue[index];
+      if (this.takeToken(waiter.host, now)) {
+        this.queue.splice(index, 1);
+        waiter.grant();
+      } else if (this.rateLimit?.perHost) {
+        index++;
+      } else {
+        break;
+      }
+    }
+
+    // Waiting on tokens rather than slots: come back when the next one is due
+    if (this.queue.length > 0 && this.active < this.maxConcurrent && this.rateLimit) {
+      const delay = Math.min(...this.queue.map((waiter) => this.nextTokenIn(waiter.host, now)));
+      this.timer = globalThis.setTimeout(() => this.drain(), Math.max(1, delay));
+    }
+  }
+
+  private refill(host: string, now: number): Bucket | undefined {
+    if (!this.rateLimit) return undefined;
+    const { requests, interval } = this.rateLimit;
+    const bucket = this.buckets.get(host) ?? { tokens: requests, updatedAt: now };
+    bucket.tokens = Math.min(requests, bucket.tokens + ((now - bucket.updatedAt) * requests) / interval);
+    bucket.updatedAt = now;
+    this.buckets.set(host, bucket);
+    return bucket;
+  }
+
+  private takeToken(host: string, now: number): boolean {
+    const bucket = this.refill(host, now);
+    if (!bucket) return true;
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  private nextTokenIn(host: string, now: number): number {
+    const bucket = this.refill(host, now);
+    if (!bucket || !this.rateLimit || bucket.tokens >= 1) return 0;
+    return Math.ceil(((1 - bucket.tokens) * this.rateLimit.interval) / this.rateLimit.requests);
+  }
+}
@@ -0,0 +1,91 @@
+import { HttpClient, isCancel } from "./index";
+import { fakeResponse } from "./test-helpers";
+
+describe("HTTP verbs", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should PUT with a JSON body", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com" });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    const res = await client.put("/users/1", { name: "Ada" });
+    const [url, opts] = fetchSpy.mock.calls[0] as [string, any];
+    expect(url).toBe("https://api.example.com/users/1");
+    expect(opts.method).toBe("PUT");
+    expect(opts.body).toBe('{"name":"Ada"}');
+    expect(res.config.method).toBe("PUT");
+  });
+
+  it("should send HEAD without parsing the body", async () => {
+    const client = HttpClient.create();
+    const response = fakeResponse();
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(response);
+
+    const res = await client.head("/users/1");
+    expect((fetchSpy.mock.calls[0][1] as any).method).toBe("HEAD");
+    expect(res.data).toBeUndefined();
+    expect(response.json).not.toHaveBeenCalled();
+    expect(response.text).not.toHaveBeenCalled();
+  });
+
+  it("should send OPTIONS", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    await client.options("/users");
+    expect((fetchSpy.mock.calls[0][1] as any).method).toBe("OPTIONS");
+  });
+
+  it("should accept an object-style request with a custom verb", async () => {
+    const client = HttpClient.create({ baseURL: "https://dav.example.com" });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    const res = await client.request({
+      method: "PROPFIND",
+      url: "/files",
+      data: { depth: 1 },
+      headers: { Depth: "1" },
+      params: { verbose: true },
+    });
+
+    const [url, opts] = fetchSpy.mock.calls[0] as [string, any];
+    expect(url).toBe("https://dav.example.com/files?verbose=true");
+    expect(opts.method).toBe("PROPFIND");
+    expect(opts.body).toBe('{"depth":1}');
+    expect(opts.headers.Depth).toBe("1");
+    expect(opts.url).toBeUndefined();
+    expect(res.config.method).toBe("PROPFIND");
+  });
+
+  it("should expose the same verbs statically", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => fakeResponse());
+
+    await HttpClient.put("/a", { x: 1 });
+    await HttpClient.head("/b");
+    await HttpClient.options("/c");
+    await HttpClient.request({ method: "PURGE", url: "/d" });
+    await HttpClient.request("/e", { method: "GET" });
+
+    const methods = fetchSpy.mock.calls.map((call) => (call[1] as any).method);
+    expect(methods).toEqual(["PUT", "HEAD", "OPTIONS", "PURGE", "GET"]);
+  });
+
+  it("should register static controlKeys in the global map", async () => {
+    (jest.spyOn(global as any, "fetch") as any).mockImplementation((_u: string, opts: any) => {
+      return new Promise((_resolve, reject) => {
+        opts.signal.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+    });
+
+    const p = HttpClient.put("/slow", { x: 1 }, { controlKey: "static-put" } as any).catch((e) => e);
+    await new Promise((r) => globalThis.setImmediate(r));
+    expect(HttpClient["globalControllers"].has("static-put")).toBe(true);
+
+    HttpClient.cancelRequest("static-put");
+    const err = await p;
+    expect(isCancel(err)).toBe(true);
+    expect(err.controlKey).toBe("static-put");
+  });
+});
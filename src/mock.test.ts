@@ -0,0 +1,176 @@
+import { CancelError, ConfigError, HttpClient, HttpStatusError, MockAdapter, NetworkError, TimeoutError } from "./index";
+
+describe("MockAdapter", () => {
+  let mock: MockAdapter;
+  let api: HttpClient;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+    api = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should answer from routes without touching global fetch", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+    mock.onGet("/users/:id").reply(({ routeParams }) => ({ data: { id: Number(routeParams.id) } }));
+    mock.onGet("/health").reply(200, "ok", { "x-region": "eu" });
+
+    const user = await api.get<{ id: number }>("/users/42");
+    const health = await api.get<string>("/health");
+
+    expect(user.data).toEqual({ id: 42 });
+    expect(user.headers["content-type"]).toBe("application/json");
+    expect(health.data).toBe("ok");
+    expect(health.headers["x-region"]).toBe("eu");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should match on method, query params, headers and body", async () => {
+    mock.onPost("/orders", { body: { sku: "A1", qty: 2 } }).reply(201, { id: 1 });
+    mock.onPost("/orders").reply(400, { error: "bad order" });
+    mock.onGet("/search", { params: { q: "shoes", tag: ["new", "sale"] } }).reply(200, ["found"]);
+    mock.onGet("/search").reply(200, []);
+    mock.onGet("/me", { headers: { authorization: /^Bearer / } }).reply(200, { name: "Ada" });
+
+    await expect(api.post("/orders", { sku: "A1", qty: 2 })).resolves.toMatchObject({ status: 201 });
+    const rejected = await api.post("/orders", { sku: "A1", qty: 3 }).catch((e) => e);
+    expect(rejected).toBeInstanceOf(HttpStatusError);
+    expect(rejected.response.data).toEqual({ error: "bad order" });
+
+    const found = await api.get("/search", { params: { q: "shoes", tag: ["new", "sale"], page: 1 }, paramsSerializer: { arrayFormat: "repeat" } });
+    expect(found.data).toEqual(["found"]);
+    expect((await api.get("/search", { params: { q: "hats" } })).data).toEqual([]);
+
+    await expect(api.get("/me", { headers: { Authorization: "Bearer t0k" } })).resolves.toMatchObject({ data: { name: "Ada" } });
+    const unmatched = await api.get("/me").catch((e) => e);
+    expect(unmatched).toBeInstanceOf(ConfigError);
+    expect(unmatched.message).toBe("No mock handler matches GET https://api.example.com/me");
+  });
+
+  it("should use one-shot handlers before falling back to persistent ones", async () => {
+    mock.onGet("/flaky").replyOnce(503, { retry: true });
+    mock.onGet("/flaky").reply(200, { ok: true });
+
+    const first = await api.get("/flaky").catch((e) => e);
+    expect(first.status).toBe(503);
+    expect((await api.get("/flaky")).data).toEqual({ ok: true });
+    expect((await api.get("/flaky")).data).toEqual({ ok: true });
+  });
+
+  it("should simulate network errors as NetworkError and let retries recover", async () => {
+    mock.onGet("/unstable").networkErrorOnce("socket hang up");
+    mock.onGet("/unstable").reply(200, { ok: true });
+    mock.onGet("/down").networkError();
+
+    const res = await api.get("/unstable", { retry: { retries: 1, baseDelay: 1, retryOnNetworkError: true } });
+    expect(res.data).toEqual({ ok: true });
+    expect(res.config.attempt).toBe(2);
+
+    const err = await api.get("/down").catch((e) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.message).toBe("Network Error");
+  });
+
+  it("should delay replies and simulate timeouts through the request timeout", async () => {
+    jest.useFakeTimers();
+    const delayed = new MockAdapter({ delay: 200 });
+    const client = HttpClient.create({ adapter: delayed.adapter });
+    delayed.onGet("https://api.example.com/slow").reply(200, { late: true });
+    delayed.onGet("https://api.example.com/fast").delay(0).reply(200, { early: true });
+    delayed.onGet("https://api.example.com/hang").timeout();
+
+    const slow = client.get("https://api.example.com/slow");
+    const fast = await client.get("https://api.example.com/fast");
+    expect(fast.data).toEqual({ early: true });
+    await jest.advanceTimersByTimeAsync(200);
+    expect((await slow).data).toEqual({ late: true });
+
+    const tooSlow = client.get("https://api.example.com/slow", { timeout: 100 }).catch((e) => e);
+    const hung = client.get("https://api.example.com/hang", { timeout: 50 }).catch((e) => e);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(await tooSlow).toBeInstanceOf(TimeoutError);
+    expect(await hung).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should error a streamed body on timeout and cancellation", async () => {
+    // A body that sends one chunk and then stalls
+    const stalled = () =>
+      new ReadableStream<Uint8Array>({
+        start: (controller) => controller.enqueue(new TextEncoder().encode("first;")),
+      });
+    mock.onGet("/stalled").reply(() => ({ data: stalled() }));
+
+    const timed = await api.get<ReadableStream<Uint8Array>>("/stalled", { responseType: "stream", timeout: 50 });
+    const timedReader = timed.data.getReader();
+    expect(new TextDecoder().decode((await timedReader.read()).value)).toBe("first;");
+    await expect(timedReader.read()).rejects.toBeInstanceOf(TimeoutError);
+
+    const cancelled = await api.get<ReadableStream<Uint8Array>>("/stalled", { responseType: "stream", controlKey: "stalled" });
+    const reader = cancelled.data.getReader();
+    await reader.read();
+    HttpClient.cancelRequest("stalled");
+    await expect(reader.read()).rejects.toBeInstanceOf(CancelError);
+  });
+
+  it("should record calls for assertions", async () => {
+    const handler = mock.onPut("/profile").reply(204);
+    mock.onAny().reply(200, {});
+
+    await api.put("/profile", { name: "Ada" }, { headers: { "X-Trace": "t-1" } });
+    await api.delete("/sessions/current");
+    await api.post("/forms", new URLSearchParams({ a: "1" }));
+
+    expect(handler.calls).toHaveLength(1);
+    expect(handler.calls[0]).toMatchObject({
+      method: "PUT",
+      url: "https://api.example.com/profile",
+      path: "/profile",
+      body: { name: "Ada" },
+    });
+    expect(handler.calls[0].headers["x-trace"]).toBe("t-1");
+    expect(mock.history.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "PUT /profile",
+      "DELETE /sessions/current",
+      "POST /forms",
+    ]);
+    expect(mock.history[2].body).toEqual({ a: "1" });
+
+    mock.reset();
+    expect(mock.history).toHaveLength(0);
+    await expect(api.get("/profile")).rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it("should scope the adapter per instance and per request", async () => {
+    const other = new MockAdapter();
+    other.onGet().reply(200, { from: "other" });
+    mock.onGet().reply(200, { from: "instance" });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(new Response("{}", {
+      headers: { "content-type": "application/json" },
+    }));
+
+    expect((await api.get("/x")).data).toEqual({ from: "instance" });
+    expect((await api.get("/x", { adapter: other.adapter })).data).toEqual({ from: "other" });
+    expect((await api.get("/x", { isolated: true })).data).toEqual({ from: "instance" });
+    await HttpClient.create().get("https://api.example.com/x");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass unmatched requests to fetch when configured", async () => {
+    const passthrough = new MockAdapter({ onNoMatch: "passthrough" });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async () => new Response("real"));
+    const client = HttpClient.create({ adapter: passthrough.adapter });
+
+    expect((await client.get("https://api.example.com/real")).data).toBe("real");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // A stream body is decoded for the history and still sent unread
+    await client.put("https://api.example.com/real", new Blob(['{"a":1}']).stream());
+    expect(passthrough.history[1].body).toEqual({ a: 1 });
+    const sent = (fetchSpy.mock.calls[1][1] as RequestInit).body as ReadableStream;
+    expect(await new Response(sent).text()).toBe('{"a":1}');
+  });
+});
@@ -0,0 +1,478 @@
+import { ConfigError } from "./errors.js";
+import type { HttpAdapter } from "./index.js";
+
+/**
+ * A request as seen by the mock adapter.
+ */
+export interface MockRequest {
+  method: string;
+  /**
+   * Full URL, including the query string.
+   */
+  url: string;
+  path: string;
+  /**
+   * Query parameters; repeated keys give an array.
+   */
+  params: Record<string, string | string[]>;
+  /**
+   * Values captured by `:name` segments of the matched route.
+   */
+  routeParams: Record<string, string>;
+  /**
+   * Header names are lower-cased.
+   */
+  headers: Record<string, string>;
+  /**
+   * Request body, decoded from JSON when possible (URLSearchParams become plain objects).
+   */
+  body: unknown;
+  init: RequestInit;
+}
+
+export interface MockResponse {
+  status?: number;
+  statusText?: string;
+  /**
+   * Objects and arrays are sent as JSON; strings, Blobs, buffers and streams as-is.
+   */
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockReplyFunction = (_request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * A string is a path pattern (`/users/:id`, `/files/*`) or an absolute URL, compared without the
+ * query string; a RegExp or function is tested against the full URL.
+ */
+export type MockUrlMatcher = string | RegExp | ((_url: string) => boolean);
+
+export interface MockRouteOptions {
+  /**
+   * Query parameters the request must contain; other parameters are ignored.
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Headers the request must contain (names are case-insensitive).
+   */
+  headers?: Record<string, string | RegExp>;
+  /**
+   * Expected body (deep-compared with the decoded body) or a predicate.
+   */
+  body?: unknown;
+}
+
+export interface MockAdapterOptions {
+  /**
+   * Delay before every reply, in milliseconds (default 0).
+   */
+  delay?: number;
+  /**
+   * What to do with requests no handler matches: fail with a ConfigError (default) or send them with fetch.
+   */
+  onNoMatch?: "error" | "passthrough";
+}
+
+type Behavior =
+  | { kind: "reply"; reply: MockReplyFunction }
+  | { kind: "networkError"; message: string }
+  | { kind: "timeout" };
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | undefined {
+  const expected = splitPath(pattern);
+  const actual = splitPath(path);
+  const captures: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    const segment = expected[i];
+    if (segment === "*") return captures;
+    if (i >= actual.length) return undefined;
+    if (segment.startsWith(":")) {
+      captures[segment.slice(1)] = decodeURIComponent(actual[i]);
+    } else if (segment !== actual[i]) {
+      return undefined;
+    }
+  }
+  return expected.length === actual.length ? captures : undefined;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function decodeText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function decodeBody(body: RequestInit["body"]): Promise<unknown> {
+  if (body == null) return undefined;
+  if (typeof body === "string") return decodeText(body);
+  if (body instanceof URLSearchParams) return Object.fromEntries(body);
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+    return decodeText(await new Response(body).text());
+  }
+  return body;
+}
+
+function toResponse(reply: MockResponse, method: string): Response {
+  const status = reply.status ?? 200;
+  const headers = new Headers(reply.headers);
+  const { data } = reply;
+  let body: BodyInit | null = null;
+  // 204, 304 and HEAD responses can't carry a body
+  if (data != null && status !== 204 && status !== 304 && method !== "HEAD") {
+    if (
+      typeof data === "string" ||
+      data instanceof Blob ||
+      data instanceof ArrayBuffer ||
+      ArrayBuffer.isView(data) ||
+      data instanceof URLSearchParams ||
+      (typeof FormData !== "undefined" && data instanceof FormData) ||
+      (typeof ReadableStream !== "undefined" && data instanceof ReadableStream)
+    ) {
+      body = data as BodyInit;
+    } else {
+      body = JSON.stringify(data);
+      if (!headers.has("content-type")) headers.set("content-type", "application/json");
+    }
+  }
+  return new Response(body, { status, statusText: reply.statusText, headers });
+}
+
+// Like fetch, the body errors with the abort reason once the request's signal aborts, so
+// timeouts and cancellation also reach responses whose headers were already received
+function abortable(response: Response, signal?: AbortSignal | null): Response {
+  if (!signal || !response.body) return response;
+  const reader = response.body.getReader();
+  let onAbort: () => void;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      onAbort = () => {
+        controller.error(signal.reason);
+        reader.cancel(signal.reason).catch(() => undefined);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        signal.removeEventListener("abort", onAbort);
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      signal.removeEventListener("abort", onAbort);
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      globalThis.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = globalThis.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * One route of a MockAdapter. Configure what it answers with `reply`, `networkError` or
+ * `timeout`; the `Once` variants answer a single request and then stop matching.
+ */
+export class MockHandler {
+  /**
+   * Requests this handler has answered.
+   */
+  readonly calls: MockRequest[] = [];
+  private readonly method?: string;
+  private readonly url?: MockUrlMatcher;
+  private readonly options: MockRouteOptions;
+  private behavior?: Behavior;
+  private remaining = Infinity;
+  private delayMs?: number;
+
+  constructor(method: string | undefined, url: MockUrlMatcher | undefined, options: MockRouteOptions = {}) {
+    this.method = method?.toUpperCase();
+    this.url = url;
+    this.options = options;
+  }
+
+  reply(_status: number, _data?: unknown, _headers?: Record<string, string>): this;
+  reply(_reply: MockReplyFunction): this;
+  reply(statusOrReply: number | MockReplyFunction, data?: unknown, headers?: Record<string, string>): this {
+    const reply: MockReplyFunction = typeof statusOrReply === "function"
+      ? statusOrReply
+      : () => ({ status: statusOrReply, data, headers });
+    return this.use({ kind: "reply", reply }, Infinity);
+  }
+
+  replyOnce(_status: number, _data?: unknown, _headers?: Record<string, string>): this;
+  replyOnce(_reply: MockReplyFunction): this;
+  replyOnce(statusOrReply: number | MockReplyFunction, data?: unknown, headers?: Record<string, string>): this {
+    this.reply(statusOrReply as number, data, headers);
+    this.remaining = 1;
+    return this;
+  }
+
+  /**
+   * Fail like fetch does when the server can't be reached.
+   */
+  networkError(message = "Network Error"): this {
+    return this.use({ kind: "networkError", message }, Infinity);
+  }
+
+  networkErrorOnce(message = "Network Error"): this {
+    return this.use({ kind: "networkError", message }, 1);
+  }
+
+  /**
+   * Never answer, so the request ends through its own `timeout` (or cancellation).
+   */
+  timeout(): this {
+    return this.use({ kind: "timeout" }, Infinity);
+  }
+
+  timeoutOnce(): this {
+    return this.use({ kind: "timeout" }, 1);
+  }
+
+  /**
+   * Wait this many milliseconds before answering; overrides the adapter-wide delay.
+   */
+  delay(ms: number): this {
+    this.delayMs = ms;
+    return this;
+  }
+
+  /**
+   * True while the handler has a behavior and answers left.
+   */
+  get active(): boolean {
+    return !!this.behavior && this.remaining > 0;
+  }
+
+  /**
+   * Route params when the request matches, undefined otherwise.
+   */
+  match(request: MockRequest): Record<string, string> | undefined {
+    if (this.method && this.method !== request.method) return undefined;
+
+    let routeParams: Record<string, string> | undefined = {};
+    if (typeof this.url === "string") {
+      const absolute = this.url.includes("://");
+      const target = absolute ? request.url.split("?")[0] : request.path;
+      routeParams = absolute
+        ? (target === this.url.split("?")[0] ? {} : undefined)
+        : matchPath(this.url, target);
+    } else if (this.url instanceof RegExp) {
+      routeParams = this.url.test(request.url) ? {} : undefined;
+    } else if (this.url) {
+      routeParams = this.url(request.url) ? {} : undefined;
+    }
+    if (!routeParams) return undefined;
+
+    const { params, headers, body } = this.options;
+    if (params) {
+      const matches = Object.entries(params).every(([key, expected]) => {
+        const actual = request.params[key];
+        if (Array.isArray(expected)) {
+          return deepEqual(([] as string[]).concat(actual ?? []), expected.map(String));
+        }
+        return actual === String(expected);
+      });
+      if (!matches) return undefined;
+    }
+    if (headers) {
+      const matches = Object.entries(headers).every(([name, expected]) => {
+        const actual = request.headers[name.toLowerCase()];
+        if (actual === undefined) return false;
+        return expected instanceof RegExp ? expected.test(actual) : actual === expected;
+      });
+      if (!matches) return undefined;
+    }
+    if (body !== undefined) {
+      const matches = typeof body === "function" ? !!(body as (_body: unknown) => unknown)(request.body) : deepEqual(request.body, body);
+      if (!matches) return undefined;
+    }
+    return routeParams;
+  }
+
+  /**
+   * Answer a matched request, counting it against one-shot handlers.
+   */
+  async respond(request: MockRequest, defaultDelay: number): Promise<Response> {
+    this.remaining--;
+    this.calls.push(request);
+    const signal = request.init.signal;
+    const delay = this.delayMs ?? defaultDelay;
+    if (delay > 0) await wait(delay, signal);
+
+    const behavior = this.behavior as Behavior;
+    if (behavior.kind === "networkError") {
+      throw new TypeError(behavior.message);
+    }
+    if (behavior.kind === "timeout") {
+      await new Promise<never>((_resolve, reject) => {
+        if (signal?.aborted) reject(signal.reason);
+        signal?.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+    }
+    const reply = await (behavior as { reply: MockReplyFunction }).reply(request);
+    if (signal?.aborted) throw signal.reason;
+    return abortable(toResponse(reply, request.method), signal);
+  }
+
+  private use(behavior: Behavior, times: number): this {
+    this.behavior = behavior;
+    this.remaining = times;
+    return this;
+  }
+}
+
+/**
+ * Transport that answers requests from registered routes instead of the network.
+ * Handlers are tried in the order they were added; the first match answers.
+ *
+ * ```ts
+ * const mock = new MockAdapter();
+ * const api = HttpClient.create({ baseURL: 'https://api.example.com', adapter: mock.adapter });
+ * mock.onGet('/users/:id').reply(({ routeParams }) => ({ data: { id: routeParams.id } }));
+ * ```
+ */
+export class MockAdapter {
+  /**
+   * Every request the adapter received, in order, whether it matched or not.
+   */
+  readonly history: MockRequest[] = [];
+  /**
+   * The transport to pass as the `adapter` option.
+   */
+  readonly adapter: HttpAdapter;
+  private handlers: MockHandler[] = [];
+  private readonly options: MockAdapterOptions;
+
+  constructor(options: MockAdapterOptions = {}) {
+    this.options = options;
+    this.adapter = (url, init) => this.handle(url, init);
+  }
+
+  on(method: string, url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    const handler = new MockHandler(method, url, options);
+    this.handlers.push(handler);
+    return handler;
+  }
+
+  onAny(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    const handler = new MockHandler(undefined, url, options);
+    this.handlers.push(handler);
+    return handler;
+  }
+
+  onGet(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("GET", url, options);
+  }
+
+  onPost(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("POST", url, options);
+  }
+
+  onPut(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("PUT", url, options);
+  }
+
+  onPatch(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("PATCH", url, options);
+  }
+
+  onDelete(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("DELETE", url, options);
+  }
+
+  onHead(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("HEAD", url, options);
+  }
+
+  onOptions(url?: MockUrlMatcher, options?: MockRouteOptions): MockHandler {
+    return this.on("OPTIONS", url, options);
+  }
+
+  /**
+   * Remove every handler and clear the history.
+   */
+  reset(): void {
+    this.handlers = [];
+    this.resetHistory();
+  }
+
+  resetHistory(): void {
+    this.history.length = 0;
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsed = new URL(url, "http://localhost");
+    const params: Record<string, string | string[]> = {};
+    parsed.searchParams.forEach((value, key) => {
+      const existing = params[key];
+      params[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+    });
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    // Decode a copy of a stream body, so a request that passes through can still send it
+    let body = init.body;
+    if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+      const [sent, copy] = body.tee();
+      init = { ...init, body: sent };
+      body = copy;
+    }
+    const request: MockRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url,
+      path: parsed.pathname,
+      params,
+      routeParams: {},
+      headers,
+      body: await decodeBody(body),
+      init,
+    };
+    this.history.push(request);
+
+    for (const handler of this.handlers) {
+      if (!handler.active) continue;
+      const routeParams = handler.match(request);
+      if (routeParams) {
+        request.routeParams = routeParams;
+        return handler.respond(request, this.options.delay ?? 0);
+      }
+    }
+    if (this.options.onNoMatch === "passthrough") {
+      return fetch(url, init);
+    }
+    throw new ConfigError(`No mock handler matches ${request.method} ${url}`);
+  }
+}
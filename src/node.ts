@@ -0,0 +1,389 @@
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import * as zlib from "zlib";
+import { Buffer } from "buffer";
+import { once } from "events";
+import { pipeline } from "stream";
+import type { Readable } from "stream";
+import type { PemInput, ProxyConfig, TlsConfig } from "./adapters.js";
+import type { HttpAdapter, HttpAdapterContext } from "./index.js";
+
+export interface NodeAdapterOptions {
+  /**
+   * Agent for every request, or a function choosing one per URL (e.g. one for http and one
+   * for https). Takes precedence over `keepAlive`.
+   */
+  agent?: http.Agent | ((_url: URL) => http.Agent | undefined);
+  /**
+   * Unix domain socket to connect to instead of the URL's host and port (e.g. /var/run/docker.sock).
+   */
+  socketPath?: string;
+  /**
+   * Reuse connections between requests through agents owned by the adapter (default false).
+   */
+  keepAlive?: boolean;
+  /**
+   * Redirects followed for requests whose `redirect` is "follow" (default 20, like fetch).
+   */
+  maxRedirects?: number;
+  /**
+   * Ask for and decode gzip, deflate and brotli responses, like fetch does (default true).
+   */
+  decompress?: boolean;
+  /**
+   * Proxy for every request, unless the client instance sets its own. Without one,
+   * HTTP_PROXY / HTTPS_PROXY and NO_PROXY are used; false ignores them. Not used with `socketPath`.
+   */
+  proxy?: string | ProxyConfig | false;
+  /**
+   * TLS settings for every request, unless the client instance sets its own.
+   */
+  tls?: TlsConfig;
+}
+
+interface ResolvedProxy {
+  url: URL;
+  authorization?: string;
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+// Headers describing a body, dropped when a redirect turns the request into a GET
+const BODY_HEADERS = ["content-type", "content-length", "content-encoding", "content-language", "content-location"];
+// Credentials that must not follow a redirect to another origin
+const CREDENTIAL_HEADERS = ["authorization", "proxy-authorization", "cookie"];
+
+function decoderFor(encoding: string | null): zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | undefined {
+  // Lenient flushing accepts truncated bodies the way browsers do
+  const flush = { flush: zlib.constants.Z_SYNC_FLUSH, finishFlush: zlib.constants.Z_SYNC_FLUSH };
+  switch (encoding?.trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return zlib.createGunzip(flush);
+    case "deflate":
+      return zlib.createInflate(flush);
+    case "br":
+      return zlib.createBrotliDecompress();
+    default:
+      return undefined;
+  }
+}
+
+function defaultPort(url: URL): string {
+  return url.port || (url.protocol === "https:" ? "443" : "80");
+}
+
+// NO_PROXY semantics as in curl: "*", host names matching their subdomains, ".domain" / "*.domain", optional ":port"
+function bypassesProxy(target: URL, noProxy: string | string[]): boolean {
+  const entries = (typeof noProxy === "string" ? noProxy.split(/[\s,]+/) : noProxy).filter(Boolean);
+  const host = target.hostname.toLowerCase();
+  return entries.some((entry) => {
+    if (entry === "*") return true;
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry.trim().toLowerCase()) as RegExpExecArray;
+    const name = match[1].replace(/^\*?\./, "");
+    if (match[2] && match[2] !== defaultPort(target)) return false;
+    return host === name || host.endsWith(`.${name}`);
+  });
+}
+
+function resolveProxy(target: URL, setting: string | ProxyConfig | false | undefined): ResolvedProxy | undefined {
+  if (setting === false) return undefined;
+  const config = typeof setting === "string" ? { url: setting } : setting;
+  const env = process.env;
+  const proxyUrl =
+    config?.url ??
+    (target.protocol === "https:" ? env.HTTPS_PROXY ?? env.https_proxy : env.HTTP_PROXY ?? env.http_proxy);
+  if (!proxyUrl) return undefined;
+  if (bypassesProxy(target, config?.noProxy ?? env.NO_PROXY ?? env.no_proxy ?? "")) return undefined;
+
+  const url = new URL(proxyUrl.includes("://") ? proxyUrl : `http://${proxyUrl}`);
+  const username = config?.auth?.username ?? decodeURIComponent(url.username);
+  const password = config?.auth?.password ?? decodeURIComponent(url.password);
+  const authorization =
+    username || password ? `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}` : undefined;
+  return { url, authorization };
+}
+
+function toPem(input: PemInput): string | Buffer | Array<string | Buffer> {
+  const convert = (value: string | Uint8Array) =>
+    typeof value === "string" ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  return Array.isArray(input) ? input.map(convert) : convert(input);
+}
+
+function tlsOptionsFor(config?: TlsConfig): tls.ConnectionOptions {
+  const options: tls.ConnectionOptions = {};
+  if (!config) return options;
+  if (config.ca) options.ca = toPem(config.ca);
+  if (config.cert) options.cert = toPem(config.cert);
+  if (config.key) options.key = toPem(config.key);
+  if (config.pfx) options.pfx = toPem(config.pfx) as Buffer;
+  if (config.passphrase !== undefined) options.passphrase = config.passphrase;
+  if (config.rejectUnauthorized !== undefined) options.rejectUnauthorized = config.rejectUnauthorized;
+  return options;
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy and start TLS with the target over it.
+ */
+function openTunnel(
+  proxy: ResolvedProxy,
+  target: URL,
+  tlsOptions: tls.ConnectionOptions,
+  signal?: AbortSignal | null
+): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const authority = `${target.hostname}:${defaultPort(target)}`;
+    const headers: http.OutgoingHttpHeaders = { host: authority };
+    if (proxy.authorization) headers["proxy-authorization"] = proxy.authorization;
+    const transport = proxy.url.protocol === "https:" ? https : http;
+    const connect = transport.request({
+      ...(proxy.url.protocol === "https:" ? tlsOptions : {}),
+      host: proxy.url.hostname,
+      port: defaultPort(proxy.url),
+      method: "CONNECT",
+      path: authority,
+      headers,
+      agent: false,
+    });
+    const onAbort = () => {
+      connect.destroy(signal?.reason);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const refuse = (status?: number, message?: string) => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new TypeError(`Proxy refused the tunnel to ${authority}: ${status} ${message ?? ""}`.trim()));
+    };
+    connect.once("error", (error) => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+    connect.once("response", (response: http.IncomingMessage) => {
+      response.resume();
+      refuse(response.statusCode, response.statusMessage);
+    });
+    connect.once("connect", (response: http.IncomingMessage, socket: net.Socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        refuse(response.statusCode, response.statusMessage);
+        return;
+      }
+      signal?.removeEventListener("abort", onAbort);
+      const hostname = target.hostname.replace(/^\[|\]$/g, "");
+      resolve(tls.connect({ ...tlsOptions, socket, servername: net.isIP(hostname) ? undefined : hostname }));
+    });
+    connect.end();
+  });
+}
+
+function toWebStream(source: Readable): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      const chunk = value as Uint8Array;
+      controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    },
+    cancel() {
+      source.destroy();
+    },
+  });
+}
+
+async function writeStream(body: ReadableStream<Uint8Array>, request: http.ClientRequest): Promise<void> {
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!request.write(value)) await once(request, "drain");
+  }
+  request.end();
+}
+
+interface Exchange {
+  url: URL;
+  method: string;
+  headers: Headers;
+  body?: Uint8Array | ReadableStream<Uint8Array>;
+}
+
+/**
+ * Node.js transport built on the `http` and `https` modules, for what fetch does not
+ * expose there: custom agents, keep-alive tuning and Unix sockets. Responses keep the
+ * fetch semantics (redirects, decompression, streamed bodies, abort reasons), so the
+ * client behaves the same with either transport.
+ *
+ * ```ts
+ * import { nodeAdapter } from 'advanced-http-client/node';
+ *
+ * const docker = HttpClient.create({
+ *   baseURL: 'http://localhost/v1.43',
+ *   adapter: nodeAdapter({ socketPath: '/var/run/docker.sock' }),
+ * });
+ * ```
+ */
+export function nodeAdapter(options: NodeAdapterOptions = {}): HttpAdapter {
+  const maxRedirects = options.maxRedirects ?? 20;
+  const decompress = options.decompress !== false;
+  const keepAliveAgents: Record<string, http.Agent> | undefined = options.keepAlive
+    ? { "http:": new http.Agent({ keepAlive: true }), "https:": new https.Agent({ keepAlive: true }) }
+    : undefined;
+  const agentFor = (url: URL) =>
+    typeof options.agent === "function" ? options.agent(url) : options.agent ?? keepAliveAgents?.[url.protocol];
+
+  // Proxied https goes through a CONNECT tunnel, proxied http is sent to the proxy in absolute form
+  const open = async (
+    exchange: Exchange,
+    signal?: AbortSignal | null,
+    context?: HttpAdapterContext
+  ): Promise<http.ClientRequest> => {
+    const { url, method } = exchange;
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new TypeError(`Unsupported protocol ${url.protocol}`);
+    const tlsOptions = tlsOptionsFor(context?.tls ?? options.tls);
+    const proxy = options.socketPath
+      ? undefined
+      : resolveProxy(url, context?.proxy !== undefined ? context.proxy : options.proxy);
+
+    const headers: http.OutgoingHttpHeaders = {};
+    exchange.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    if (decompress && headers["accept-encoding"] === undefined) headers["accept-encoding"] = "gzip, deflate, br";
+    if (exchange.body instanceof Uint8Array) headers["content-length"] = exchange.body.byteLength;
+
+    if (proxy && url.protocol === "http:") {
+      if (proxy.authorization) headers["proxy-authorization"] = proxy.authorization;
+      const proxyOptions: https.RequestOptions = {
+        ...tlsOptions,
+        method,
+        headers: { ...headers, host: url.host },
+        host: proxy.url.hostname,
+        port: defaultPort(proxy.url),
+        path: url.href,
+        agent: agentFor(proxy.url),
+      };
+      return proxy.url.protocol === "https:" ? https.request(proxyOptions) : http.request(proxyOptions);
+    }
+    if (proxy) {
+      const socket = await openTunnel(proxy, url, tlsOptions, signal);
+      if (signal?.aborted) {
+        socket.destroy();
+        throw signal.reason;
+      }
+      return https.request(url, { method, headers, createConnection: () => socket });
+    }
+    const requestOptions: https.RequestOptions = {
+      ...tlsOptions,
+      method,
+      headers,
+      agent: agentFor(url),
+      socketPath: options.socketPath,
+    };
+    return url.protocol === "https:" ? https.request(url, requestOptions) : http.request(url, requestOptions);
+  };
+
+  const send = async (exchange: Exchange, signal?: AbortSignal | null, context?: HttpAdapterContext) => {
+    if (signal?.aborted) throw signal.reason;
+    const request = await open(exchange, signal, context);
+    const { method } = exchange;
+    return new Promise<Response>((resolve, reject) => {
+      let incoming: http.IncomingMessage | undefined;
+      const onAbort = () => {
+        incoming?.destroy(signal?.reason);
+        request.destroy(signal?.reason);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      request.once("close", () => signal?.removeEventListener("abort", onAbort));
+      request.once("error", reject);
+
+      request.once("response", (response: http.IncomingMessage) => {
+        incoming = response;
+        const status = response.statusCode ?? 0;
+        const responseHeaders = new Headers();
+        for (let i = 0; i < response.rawHeaders.length; i += 2) {
+          responseHeaders.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+        }
+        const hasBody = method !== "HEAD" && !NULL_BODY_STATUSES.includes(status);
+        let source: Readable = response;
+        const decoder = decompress && hasBody ? decoderFor(responseHeaders.get("content-encoding")) : undefined;
+        if (decoder) {
+          // Errors and aborts on either side reach whoever reads the body
+          source = pipeline(response, decoder, () => undefined);
+        }
+        if (!hasBody) response.resume();
+        try {
+          resolve(
+            new Response(hasBody ? toWebStream(source) : null, {
+              status,
+              statusText: response.statusMessage,
+              headers: responseHeaders,
+            })
+          );
+        } catch (error) {
+          response.destroy();
+          reject(error);
+        }
+      });
+
+      if (exchange.body instanceof Uint8Array) {
+        request.end(exchange.body);
+      } else if (exchange.body) {
+        writeStream(exchange.body, request).catch((error) => request.destroy(error));
+      } else {
+        request.end();
+      }
+    });
+  };
+
+  return async (url, init, context) => {
+    const redirect = init.redirect ?? "follow";
+    // Let the runtime encode the body and fill in its Content-Type exactly as fetch would
+    const initial = new Request(url, { ...init, signal: undefined });
+    const streamed = typeof ReadableStream !== "undefined" && init.body instanceof ReadableStream;
+    let exchange: Exchange = {
+      url: new URL(initial.url),
+      method: initial.method,
+      headers: initial.headers,
+      body: !initial.body ? undefined : streamed ? initial.body : new Uint8Array(await initial.arrayBuffer()),
+    };
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await send(exchange, init.signal, context);
+      const location = response.headers.get("location");
+      if (!REDIRECT_STATUSES.includes(response.status) || location === null || redirect === "manual") {
+        Object.defineProperties(response, {
+          url: { value: exchange.url.href },
+          redirected: { value: redirects > 0 },
+        });
+        return response;
+      }
+      await response.body?.cancel();
+      if (redirect === "error") throw new TypeError(`Unexpected redirect to ${location}`);
+      if (redirects >= maxRedirects) throw new TypeError(`Too many redirects (more than ${maxRedirects})`);
+
+      const next = new URL(location, exchange.url);
+      const headers = new Headers(exchange.headers);
+      const toGet =
+        (response.status === 303 && exchange.method !== "HEAD") ||
+        ([301, 302].includes(response.status) && exchange.method === "POST");
+      if (toGet) BODY_HEADERS.forEach((name) => headers.delete(name));
+      else if (exchange.body instanceof ReadableStream) {
+        throw new TypeError("Cannot follow a redirect with a streamed request body");
+      }
+      if (next.origin !== exchange.url.origin) CREDENTIAL_HEADERS.forEach((name) => headers.delete(name));
+      exchange = {
+        url: next,
+        method: toGet ? "GET" : exchange.method,
+        headers,
+        body: toGet ? undefined : exchange.body,
+      };
+    }
+  };
+}
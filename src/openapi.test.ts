@@ -0,0 +1,304 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import ts from "typescript";
+import * as client from "./index";
+import { ConfigError, HttpClient, MockAdapter } from "./index";
+import { generateClient, generateClientFromFile, parseOpenApiDocument, runCli } from "./openapi";
+import type { OpenApiDocument } from "./openapi";
+import { tick } from "./test-helpers";
+
+const petstore: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: { title: "Petstore API", version: "1.2.0" },
+  servers: [{ url: "https://{region}.petstore.example.com/v1", variables: { region: { default: "eu" } } }],
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        summary: "List all pets",
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "tags", in: "query", schema: { type: "array", items: { type: "string" } } },
+        ],
+        responses: {
+          "200": { description: "A page of pets", content: { "application/json": { schema: { $ref: "#/components/schemas/Pets" } } } },
+          default: { $ref: "#/components/responses/Problem" },
+        },
+      },
+      post: {
+        operationId: "create-pet",
+        requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/NewPet" } } } },
+        responses: {
+          "201": { description: "Created", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+          "422": { $ref: "#/components/responses/Problem" },
+        },
+      },
+    },
+    "/pets/{pet-id}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: {
+        operationId: "showPetById",
+        parameters: [{ name: "X-Request-Id", in: "header", schema: { type: "string" } }],
+        responses: {
+          "200": { description: "The pet", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+          "404": { $ref: "#/components/responses/Problem" },
+        },
+      },
+      delete: {
+        deprecated: true,
+        responses: { "204": { description: "Deleted" } },
+      },
+    },
+    "/pets/{pet-id}/photo": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      put: {
+        operationId: "uploadPhoto",
+        requestBody: { content: { "image/png": { schema: { type: "string", format: "binary" } } } },
+        responses: { "2XX": { description: "Stored", content: { "text/plain": { schema: { type: "string" } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        description: "A pet in the store",
+        type: "object",
+        required: ["id", "name"],
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+          status: { type: "string", enum: ["available", "sold"] },
+          "owner-id": { type: "string", nullable: true, description: "Owner account" },
+          labels: { type: "object", additionalProperties: { type: "string" } },
+        },
+      },
+      NewPet: { allOf: [{ $ref: "#/components/schemas/Pet" }, { type: "object", properties: { tag: { type: "string" } } }] },
+      Pets: { type: "array", items: { $ref: "#/components/schemas/Pet" } },
+      Problem: {
+        type: "object",
+        required: ["title"],
+        properties: { title: { type: "string" }, status: { type: ["integer", "null"] } },
+      },
+    },
+    parameters: {
+      PetId: { name: "pet-id", in: "path", required: true, schema: { type: "integer" } },
+    },
+    responses: {
+      Problem: { description: "Problem", content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } } },
+    },
+  },
+};
+
+// Transpile a generated client and load it against this package's sources
+function loadClient(source: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const module = { exports: {} as Record<string, any> };
+  new Function("require", "module", "exports", outputText)(() => client, module, module.exports);
+  return module.exports;
+}
+
+describe("OpenAPI client generation", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should emit component types, argument types and responses typed per status", () => {
+    const source = generateClient(petstore);
+
+    expect(source).toContain("// Generated by advanced-http-client from Petstore API 1.2.0. Do not edit by hand.");
+    expect(source).toContain(`/**
+ * A pet in the store
+ */
+export interface Pet {
+  id: number;
+  name: string;
+  status?: "available" | "sold";
+  /**
+   * Owner account
+   */
+  "owner-id"?: string | null;
+  labels?: Record<string, string>;
+}`);
+    expect(source).toContain("export type NewPet = Pet & {\n  tag?: string;\n};");
+    expect(source).toContain("export type Pets = Pet[];");
+    expect(source).toContain("status?: number | null;");
+    expect(source).toContain(`export interface ShowPetByIdArgs {
+  path: {
+    "pet-id": number;
+  };
+  headers?: {
+    "X-Request-Id"?: string;
+  };
+}`);
+    expect(source).toContain("export type ListPetsResponse = HttpClientResponse<Pets> & { status: 200 };");
+    expect(source).toContain(`export type CreatePetErrorResponse = HttpClientResponse<Problem> & { status: 422 };`);
+    expect(source).toContain("export type UploadPhotoResponse = HttpClientResponse<string>;");
+    expect(source).toContain("export class PetstoreClient {");
+    expect(generateClient({ ...petstore, info: { title: "API", version: "1" } })).toContain("export class ApiClient {");
+    expect(generateClient({ ...petstore, info: { title: "Public API Gateway", version: "1" } })).toContain("export class PublicAPIGatewayClient {");
+    expect(source).toContain('HttpClient.create({ baseURL: "https://eu.petstore.example.com/v1", ...http })');
+    expect(source).toContain("listPets(args: ListPetsArgs = {}, options: RequestOptions = {}): Promise<ListPetsResponse> {");
+    expect(source).toContain("createPet(args: CreatePetArgs, options: RequestOptions = {}): Promise<CreatePetResponse> {");
+    expect(source).toContain("  /**\n   * @deprecated\n   */\n  deletePetsPetId(args: DeletePetsPetIdArgs,");
+  });
+
+  it("should generate code that type-checks against the client", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openapi-"));
+    try {
+      fs.writeFileSync(path.join(dir, "api.ts"), generateClient(petstore));
+      fs.writeFileSync(
+        path.join(dir, "usage.ts"),
+        `import { HttpClient } from "advanced-http-client";
+import { PetstoreClient } from "./api";
+
+export async function usage(): Promise<string> {
+  const api = new PetstoreClient(HttpClient.create({ timeout: 1000 }));
+  const pets = await api.listPets({ query: { limit: 10, tags: ["a"] } }, { controlKey: "pets" });
+  const created = await api.createPet({ body: { id: 1, name: "Rex", tag: "dog" } });
+  const status: 201 = created.status;
+  // @ts-expect-error path parameters are required
+  await api.showPetById({});
+  // @ts-expect-error the body must match NewPet
+  await api.createPet({ body: { name: 1 } });
+  return pets.data[0].name + status;
+}
+`
+      );
+      const program = ts.createProgram([path.join(dir, "usage.ts")], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ES2020,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        lib: ["lib.es2020.d.ts", "lib.dom.d.ts"],
+        baseUrl: dir,
+        paths: { "advanced-http-client": [path.resolve("src/index.ts")] },
+      });
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it("should send requests through the wrapped HttpClient", async () => {
+    const mock = new MockAdapter();
+    const http = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter });
+    const seen: string[] = [];
+    http.interceptors.request.use((config) => {
+      seen.push(config.method ?? "");
+      return config;
+    });
+    mock.onGet("/pets").reply(200, [{ id: 1, name: "Rex" }]);
+    mock.onPost("/pets").reply(201, { id: 2, name: "Tom" });
+    mock.onGet("/pets/7").reply(200, { id: 7, name: "Kit" });
+    mock.onPut("/pets/7/photo").reply(200, "stored");
+
+    const { PetstoreClient } = loadClient(generateClient(petstore));
+    const api = new PetstoreClient(http);
+
+    expect((await api.listPets({ query: { limit: 5, tags: ["a", "b"] } })).data).toEqual([{ id: 1, name: "Rex" }]);
+    expect((await api.createPet({ body: { name: "Tom" } })).status).toBe(201);
+    expect((await api.showPetById({ path: { "pet-id": 7 }, headers: { "X-Request-Id": "r-1" } }, { headers: { "X-App": "web" } })).data.name).toBe("Kit");
+    const photo = new Uint8Array([1, 2, 3]);
+    expect((await api.uploadPhoto({ path: { "pet-id": 7 }, body: photo })).data).toBe("stored");
+
+    const [list, create, show, upload] = mock.history;
+    expect(list.url).toBe("https://api.example.com/pets?limit=5&tags=a&tags=b");
+    expect(create.body).toEqual({ name: "Tom" });
+    expect(show.headers["x-request-id"]).toBe("r-1");
+    expect(show.headers["x-app"]).toBe("web");
+    expect(upload.headers["content-type"]).toBe("image/png");
+    expect(seen).toEqual(["GET", "POST", "GET", "PUT"]);
+  });
+
+  it("should keep the instance params when the query is left out", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/pets").reply(200, []);
+    const { PetstoreClient } = loadClient(generateClient(petstore));
+    const api = new PetstoreClient({ baseURL: "https://api.example.com", adapter: mock.adapter, params: { api_key: "k" } });
+
+    await api.listPets();
+    await api.listPets({ query: { limit: 5 } });
+    expect(mock.history.map((r) => r.url)).toEqual(["https://api.example.com/pets?api_key=k", "https://api.example.com/pets?api_key=k&limit=5"]);
+  });
+
+  it("should keep timeout and controlKey working", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/pets").reply(200, []).delay(1000);
+    const { PetstoreClient } = loadClient(generateClient(petstore));
+    const api = new PetstoreClient({ baseURL: "https://api.example.com", adapter: mock.adapter });
+    expect(api.http).toBeInstanceOf(HttpClient);
+
+    const cancelled = api.listPets({}, { controlKey: "pets" }).catch((e: unknown) => e);
+    await tick();
+    HttpClient.cancelRequest("pets");
+    expect(await cancelled).toBeInstanceOf(client.CancelError);
+    await expect(api.listPets({}, { timeout: 10 })).rejects.toBeInstanceOf(client.TimeoutError);
+  });
+
+  it("should read JSON and YAML documents and reject other formats", async () => {
+    const yaml = `openapi: 3.1.0
+info:
+  title: Status
+paths:
+  /health:
+    get:
+      responses:
+        "200":
+          description: ok
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  ok: { type: boolean }
+`;
+    const fromYaml = generateClient(await parseOpenApiDocument(yaml));
+    expect(fromYaml).toContain("export class StatusClient {");
+    expect(fromYaml).toContain("getHealth(options: RequestOptions = {}): Promise<GetHealthResponse> {");
+    expect(fromYaml).toContain("HttpClient.create(http)");
+
+    await expect(parseOpenApiDocument(JSON.stringify(petstore))).resolves.toMatchObject({ openapi: "3.0.3" });
+    await expect(parseOpenApiDocument('{"swagger": "2.0"}')).rejects.toThrow("Swagger 2.0 documents are not supported");
+    expect(() => generateClient({ ...petstore, paths: { "/x": { get: { responses: { "200": { $ref: "#/nope" } } } } } })).toThrow(
+      ConfigError
+    );
+  });
+
+  it("should write clients from files and the command line", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openapi-"));
+    try {
+      const input = path.join(dir, "openapi.json");
+      const output = path.join(dir, "api.ts");
+      fs.writeFileSync(input, JSON.stringify(petstore));
+
+      const source = await generateClientFromFile(input, { className: "Pets", output });
+      expect(fs.readFileSync(output, "utf8")).toBe(source);
+      expect(source).toContain("export class Pets {");
+
+      const out: string[] = [];
+      const err: string[] = [];
+      const io = { stdout: (text: string) => out.push(text), stderr: (text: string) => err.push(text) };
+      expect(await runCli([input, "--import", "../lib", "--base-url", "http://localhost:8080"], io)).toBe(0);
+      expect(out.join("")).toContain('import { HttpClient } from "../lib";');
+      expect(out.join("")).toContain('baseURL: "http://localhost:8080"');
+
+      expect(await runCli([input, "-o", output, "-n", "Api"], io)).toBe(0);
+      expect(fs.readFileSync(output, "utf8")).toContain("export class Api {");
+      expect(await runCli([], io)).toBe(2);
+      expect(await runCli([input, "--bogus"], io)).toBe(2);
+      expect(await runCli([path.join(dir, "missing.json")], io)).toBe(1);
+      expect(err.join("")).toContain("Unknown option --bogus");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,639 @@
+import { readFile, writeFile } from "fs/promises";
+import { ConfigError } from "./errors.js";
+
+// OpenAPI 3.0 / 3.1 (https://spec.openapis.org/oas/v3.1.0), limited to what the generator reads
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiSchema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  deprecated?: boolean;
+  items?: OpenApiSchema | OpenApiReference;
+  properties?: Record<string, OpenApiSchema | OpenApiReference>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema | OpenApiReference;
+  allOf?: Array<OpenApiSchema | OpenApiReference>;
+  oneOf?: Array<OpenApiSchema | OpenApiReference>;
+  anyOf?: Array<OpenApiSchema | OpenApiReference>;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema | OpenApiReference;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  style?: string;
+  explode?: boolean;
+  schema?: OpenApiSchema | OpenApiReference;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: Array<OpenApiParameter | OpenApiReference>;
+  requestBody?: OpenApiRequestBody | OpenApiReference;
+  responses?: Record<string, OpenApiResponse | OpenApiReference>;
+}
+
+export type OpenApiPathItem = {
+  parameters?: Array<OpenApiParameter | OpenApiReference>;
+} & { [_method in HttpMethodKey]?: OpenApiOperation };
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default: string }> }>;
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema | OpenApiReference>;
+    parameters?: Record<string, OpenApiParameter | OpenApiReference>;
+    requestBodies?: Record<string, OpenApiRequestBody | OpenApiReference>;
+    responses?: Record<string, OpenApiResponse | OpenApiReference>;
+  };
+}
+
+export interface GenerateClientOptions {
+  /**
+   * Name of the generated class (default: the document title followed by "Client", e.g. PetstoreClient).
+   */
+  className?: string;
+  /**
+   * Default `baseURL` of the client (default: the first server of the document).
+   */
+  baseURL?: string;
+  /**
+   * Module the client imports HttpClient from (default "advanced-http-client").
+   */
+  importFrom?: string;
+}
+
+type HttpMethodKey = "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
+
+const METHODS: HttpMethodKey[] = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+// Media types the client serializes itself, setting the Content-Type on its own
+const NATIVE_BODY_TYPES = ["application/json", "multipart/form-data", "application/x-www-form-urlencoded"];
+// Class members the generated methods must not shadow
+const RESERVED_MEMBERS = ["constructor", "http"];
+
+const isReference = (value: unknown): value is OpenApiReference =>
+  typeof value === "object" && value !== null && typeof (value as OpenApiReference).$ref === "string";
+
+const isJsonMediaType = (type: string) => /^application\/(.+\+)?json\b/i.test(type);
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function pascalCase(text: string): string {
+  const name = words(text)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+function camelCase(text: string): string {
+  const name = pascalCase(text);
+  return name.startsWith("_") ? name : name[0].toLowerCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function propertyAccess(target: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${target}.${name}` : `${target}[${JSON.stringify(name)}]`;
+}
+
+function docComment(lines: Array<string | undefined>, indent: string): string {
+  const text = lines.filter((line): line is string => !!line).join("\n\n").replace(/\*\//g, "*\\/");
+  if (!text) return "";
+  const body = text
+    .split("\n")
+    .map((line) => `${indent} *${line ? ` ${line}` : ""}`)
+    .join("\n");
+  return `${indent}/**\n${body}\n${indent} */\n`;
+}
+
+// Wrap unions and intersections before they get combined with other operators
+function group(type: string): string {
+  return /[|&]/.test(type) && !/^[({[]/.test(type) ? `(${type})` : type;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length ? unique.join(" | ") : "never";
+}
+
+/**
+ * Turns an OpenAPI document into the source of a typed client class.
+ */
+class ClientWriter {
+  private readonly document: OpenApiDocument;
+  private readonly options: GenerateClientOptions;
+  // Component schema name -> generated type name
+  private readonly schemaNames = new Map<string, string>();
+  private readonly methodNames = new Set<string>();
+  private usesHeaders = false;
+
+  constructor(document: OpenApiDocument, options: GenerateClientOptions) {
+    this.document = document;
+    this.options = options;
+    const taken = new Set<string>();
+    for (const name of Object.keys(document.components?.schemas ?? {})) {
+      let typeName = pascalCase(name);
+      while (taken.has(typeName)) typeName = `${typeName}_`;
+      taken.add(typeName);
+      this.schemaNames.set(name, typeName);
+    }
+  }
+
+  write(): string {
+    const { info } = this.document;
+    // "Petstore API" names PetstoreClient; a title that is only "API" (or none) names ApiClient
+    const title = info?.title?.replace(/\bapi\s*$/i, "") ?? "";
+    const className = this.options.className ?? `${words(title).length ? pascalCase(title) : "Api"}Client`;
+    const importFrom = this.options.importFrom ?? "advanced-http-client";
+    const baseURL = this.options.baseURL ?? this.serverURL();
+
+    const types = this.componentTypes();
+    const operations = this.operations();
+    const source = [
+      `/* eslint-disable */`,
+      `// Generated by advanced-http-client from ${info?.title ?? "an OpenAPI document"}${info?.version ? ` ${info.version}` : ""}. Do not edit by hand.`,
+      `import { HttpClient } from ${JSON.stringify(importFrom)};`,
+      `import type { ExtendedRequestInit, HttpClientConfig, HttpClientResponse } from ${JSON.stringify(importFrom)};`,
+      ``,
+      ...types,
+      `/**`,
+      ` * Options of a single call: everything \`request\` accepts except what the operation sets.`,
+      ` */`,
+      `export type RequestOptions = Omit<ExtendedRequestInit, "method" | "body" | "data" | "params" | "schema">;`,
+      ``,
+      ...operations.map((operation) => operation.types),
+    ];
+    if (this.usesHeaders) {
+      source.push(
+        `function withHeaders(options: RequestOptions, values: Record<string, unknown> = {}): RequestOptions {`,
+        `  const headers = new Headers(options.headers);`,
+        `  for (const [name, value] of Object.entries(values)) {`,
+        `    if (value !== undefined && value !== null) headers.set(name, String(value));`,
+        `  }`,
+        `  return { ...options, headers };`,
+        `}`,
+        ``
+      );
+    }
+    source.push(
+      docComment([info?.title, info?.description], "").trimEnd(),
+      `export class ${className} {`,
+      `  readonly http: HttpClient;`,
+      ``,
+      `  /**`,
+      `   * Pass an HttpClient to share its interceptors and defaults, or a config for a new instance.`,
+      `   */`,
+      `  constructor(http: HttpClient | HttpClientConfig = {}) {`,
+      baseURL
+        ? `    this.http = http instanceof HttpClient ? http : HttpClient.create({ baseURL: ${JSON.stringify(baseURL)}, ...http });`
+        : `    this.http = http instanceof HttpClient ? http : HttpClient.create(http);`,
+      `  }`,
+      ...operations.map((operation) => `\n${operation.method}`),
+      `}`,
+      ``
+    );
+    return source.filter((line, i) => line !== "" || source[i - 1] !== "").join("\n");
+  }
+
+  private serverURL(): string | undefined {
+    const server = this.document.servers?.[0];
+    if (!server) return undefined;
+    return server.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match);
+  }
+
+  private resolve<T>(value: T | OpenApiReference, seen: string[] = []): T {
+    if (!isReference(value)) return value;
+    const ref = value.$ref;
+    if (!ref.startsWith("#/") || seen.includes(ref)) {
+      throw new ConfigError(`Cannot resolve $ref "${ref}": only acyclic references within the document are supported.`);
+    }
+    let target: unknown = this.document;
+    for (const segment of ref.slice(2).split("/")) {
+      const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+      target = typeof target === "object" && target !== null ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    if (target === undefined) throw new ConfigError(`Cannot resolve $ref "${ref}".`);
+    return this.resolve(target as T | OpenApiReference, [...seen, ref]);
+  }
+
+  private componentTypes(): string[] {
+    return Object.entries(this.document.components?.schemas ?? {}).map(([name, schema]) => {
+      const typeName = this.schemaNames.get(name)!;
+      const resolved = isReference(schema) ? undefined : schema;
+      const doc = docComment([resolved?.description, resolved?.deprecated ? "@deprecated" : undefined], "");
+      const isInterface =
+        resolved &&
+        resolved.properties &&
+        !resolved.allOf &&
+        !resolved.oneOf &&
+        !resolved.anyOf &&
+        !resolved.nullable &&
+        !Array.isArray(resolved.type);
+      return isInterface
+        ? `${doc}export interface ${typeName} ${this.objectType(resolved, "")}\n`
+        : `${doc}export type ${typeName} = ${this.schemaType(schema, "")};\n`;
+    });
+  }
+
+  /**
+   * TypeScript type of a schema. Component schemas are referenced by name, other references are inlined.
+   */
+  private schemaType(schema: OpenApiSchema | OpenApiReference | undefined, indent: string): string {
+    if (!schema) return "unknown";
+    if (isReference(schema)) {
+      const component = /^#\/components\/schemas\/([^/]+)$/.exec(schema.$ref);
+      const name = component && this.schemaNames.get(decodeURIComponent(component[1]).replace(/~1/g, "/").replace(/~0/g, "~"));
+      return name ?? this.schemaType(this.resolve(schema), indent);
+    }
+    let type: string;
+    if (schema.const !== undefined) {
+      type = JSON.stringify(schema.const);
+    } else if (schema.enum) {
+      type = union(schema.enum.map((value) => JSON.stringify(value)));
+    } else if (schema.allOf) {
+      type = [...new Set(schema.allOf.map((part) => group(this.schemaType(part, indent))))].join(" & ");
+    } else if (schema.oneOf || schema.anyOf) {
+      type = union((schema.oneOf ?? schema.anyOf)!.map((part) => this.schemaType(part, indent)));
+    } else if (Array.isArray(schema.type)) {
+      type = union(schema.type.map((single) => this.schemaType({ ...schema, type: single, nullable: false }, indent)));
+    } else {
+      switch (schema.type) {
+        case "string":
+          type = schema.format === "binary" ? "Blob" : "string";
+          break;
+        case "integer":
+        case "number":
+          type = "number";
+          break;
+        case "boolean":
+          type = "boolean";
+          break;
+        case "null":
+          type = "null";
+          break;
+        case "array": {
+          const item = this.schemaType(schema.items, indent);
+          type = /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+          break;
+        }
+        default:
+          type = schema.type === "object" || schema.properties || schema.additionalProperties !== undefined
+            ? this.objectType(schema, indent)
+            : "unknown";
+      }
+    }
+    return schema.nullable ? `${group(type)} | null` : type;
+  }
+
+  private objectType(schema: OpenApiSchema, indent: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+    const extra = schema.additionalProperties;
+    const extraType = extra === true || (extra && Object.keys(extra).length === 0)
+      ? "unknown"
+      : extra
+        ? this.schemaType(extra, indent)
+        : undefined;
+    if (properties.length === 0) return `Record<string, ${extraType ?? "unknown"}>`;
+
+    const inner = `${indent}  `;
+    const required = schema.required ?? [];
+    const members = properties.map(([name, property]) => {
+      const resolved = isReference(property) ? undefined : property;
+      const doc = docComment([resolved?.description, resolved?.deprecated ? "@deprecated" : undefined], inner);
+      const optional = required.includes(name) ? "" : "?";
+      return `${doc}${inner}${propertyKey(name)}${optional}: ${this.schemaType(property, inner)};`;
+    });
+    // Declared properties must fit the index signature, so a typed one only stands alone
+    if (extraType) members.push(`${inner}[key: string]: unknown;`);
+    return `{\n${members.join("\n")}\n${indent}}`;
+  }
+
+  /**
+   * Type of a request or response body: the JSON schema when there is one, else what the client hands over.
+   */
+  private contentType(content: Record<string, OpenApiMediaType> | undefined, request: boolean): { type: string; mediaType?: string } {
+    const mediaTypes = Object.keys(content ?? {});
+    const preferred = [
+      mediaTypes.find(isJsonMediaType),
+      mediaTypes.find((type) => type.startsWith("multipart/form-data")),
+      mediaTypes.find((type) => type.startsWith("application/x-www-form-urlencoded")),
+      mediaTypes.find((type) => type.startsWith("text/")),
+      mediaTypes[0],
+    ].find((type) => type !== undefined);
+    if (!preferred || !content) return { type: "unknown" };
+    if (isJsonMediaType(preferred) || preferred === "*/*") {
+      return { type: this.schemaType(content[preferred].schema, ""), mediaType: preferred };
+    }
+    if (preferred.startsWith("multipart/form-data")) return { type: "FormData", mediaType: preferred };
+    if (preferred.startsWith("application/x-www-form-urlencoded")) return { type: "URLSearchParams", mediaType: preferred };
+    if (preferred.startsWith("text/")) return { type: "string", mediaType: preferred };
+    return {
+      type: request ? "Blob | ArrayBuffer | ArrayBufferView | ReadableStream<Uint8Array>" : "Blob",
+      mediaType: preferred,
+    };
+  }
+
+  private methodName(operation: OpenApiOperation, method: string, path: string): string {
+    let name = camelCase(operation.operationId ?? `${method} ${path.replace(/[{}]/g, "")}`);
+    if (RESERVED_MEMBERS.includes(name)) name = `${name}Operation`;
+    const base = name;
+    for (let i = 2; this.methodNames.has(name); i++) name = `${base}${i}`;
+    this.methodNames.add(name);
+    return name;
+  }
+
+  private operations(): Array<{ types: string; method: string }> {
+    const result: Array<{ types: string; method: string }> = [];
+    for (const [path, item] of Object.entries(this.document.paths ?? {})) {
+      for (const method of METHODS) {
+        const operation = item[method];
+        if (operation) result.push(this.operation(path, method, operation, item.parameters ?? []));
+      }
+    }
+    return result;
+  }
+
+  private operation(
+    path: string,
+    method: HttpMethodKey,
+    operation: OpenApiOperation,
+    shared: Array<OpenApiParameter | OpenApiReference>
+  ): { types: string; method: string } {
+    const name = this.methodName(operation, method, path);
+    const typeName = pascalCase(name);
+
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = new Map<string, OpenApiParameter>();
+    for (const parameter of [...shared, ...(operation.parameters ?? [])].map((p) => this.resolve(p))) {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+    const groups: Record<"path" | "query" | "header", OpenApiParameter[]> = { path: [], query: [], header: [] };
+    for (const parameter of parameters.values()) {
+      if (parameter.in !== "cookie") groups[parameter.in].push(parameter);
+    }
+
+    const argMembers: string[] = [];
+    let argsRequired = false;
+    const addGroup = (key: string, list: OpenApiParameter[]) => {
+      if (list.length === 0) return;
+      const required = list.some((parameter) => parameter.required || parameter.in === "path");
+      argsRequired ||= required;
+      const members = list.map((parameter) => {
+        const doc = docComment([parameter.description, parameter.deprecated ? "@deprecated" : undefined], "    ");
+        const schema = parameter.schema ?? Object.values(parameter.content ?? {})[0]?.schema;
+        const optional = parameter.required || parameter.in === "path" ? "" : "?";
+        return `${doc}    ${propertyKey(parameter.name)}${optional}: ${this.schemaType(schema, "    ")};`;
+      });
+      argMembers.push(`  ${key}${required ? "" : "?"}: {\n${members.join("\n")}\n  };`);
+    };
+    addGroup("path", groups.path);
+    addGroup("query", groups.query);
+    addGroup("headers", groups.header);
+
+    const requestBody = operation.requestBody ? this.resolve(operation.requestBody) : undefined;
+    const body = requestBody ? this.contentType(requestBody.content, true) : undefined;
+    if (requestBody && body) {
+      argsRequired ||= !!requestBody.required;
+      const doc = docComment([requestBody.description], "  ");
+      argMembers.push(`${doc}  body${requestBody.required ? "" : "?"}: ${body.type};`);
+    }
+
+    // Responses split by outcome: 2xx resolve, the rest reach `err.response`
+    const success: string[] = [];
+    const failure: string[] = [];
+    for (const [status, value] of Object.entries(operation.responses ?? {})) {
+      const response = this.resolve(value);
+      const { type } = this.contentType(response.content, false);
+      const variant = /^\d{3}$/.test(status)
+        ? `(HttpClientResponse<${type}> & { status: ${status} })`
+        : `HttpClientResponse<${type}>`;
+      (status.startsWith("2") ? success : failure).push(variant);
+    }
+    const variants = (list: string[]) =>
+      list.length === 0
+        ? "HttpClientResponse<unknown>"
+        : list.length === 1
+          ? list[0].replace(/^\((.*)\)$/, "$1")
+          : `\n${list.map((variant) => `  | ${variant}`).join("\n")}`;
+
+    const types = [
+      argMembers.length ? `export interface ${typeName}Args {\n${argMembers.join("\n")}\n}\n` : "",
+      `export type ${typeName}Response = ${variants(success)};\n`,
+      `export type ${typeName}ErrorResponse = ${variants(failure)};\n`,
+    ].join("\n");
+
+    // Request: path parameters are encoded into the URL, the rest is handed to the client
+    const url = path
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const param = /^\{(.+)\}$/.exec(part);
+        return param
+          ? `\${encodeURIComponent(String(${propertyAccess("args.path", param[1])}))}`
+          : part.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${");
+      })
+      .join("");
+    const headerValues: string[] = [];
+    if (body?.mediaType && !NATIVE_BODY_TYPES.some((type) => body.mediaType!.startsWith(type)) && body.mediaType !== "*/*") {
+      headerValues.push(`"Content-Type": ${JSON.stringify(body.mediaType)}`);
+    }
+    if (groups.header.length) headerValues.push("...args.headers");
+    this.usesHeaders ||= headerValues.length > 0;
+
+    const init = [
+      headerValues.length === 0
+        ? "...options"
+        : `...withHeaders(options, ${groups.header.length && headerValues.length === 1 ? "args.headers" : `{ ${headerValues.join(", ")} }`})`,
+      `method: ${JSON.stringify(method.toUpperCase())}`,
+    ];
+    if (groups.query.length) {
+      // Leave params out without a query: an explicit undefined would drop the instance params
+      init.push("...(args.query && { params: args.query })");
+      // OpenAPI's default array style (form, exploded) repeats the key; explode: false joins with commas
+      const arrays = groups.query.filter((parameter) => {
+        const schema = parameter.schema && this.resolve(parameter.schema);
+        return schema?.type === "array";
+      });
+      if (arrays.length) {
+        const format = arrays[0].explode === false ? "comma" : "repeat";
+        init.push(`paramsSerializer: { arrayFormat: "${format}" }`);
+      }
+    }
+    if (body) init.push("data: args.body");
+
+    const signature = [
+      argMembers.length ? `args: ${typeName}Args${argsRequired ? "" : " = {}"}` : "",
+      "options: RequestOptions = {}",
+    ].filter(Boolean);
+    const doc = docComment(
+      [operation.summary, operation.description, operation.deprecated ? "@deprecated" : undefined],
+      "  "
+    );
+    const methodSource = [
+      `${doc}  ${name}(${signature.join(", ")}): Promise<${typeName}Response> {`,
+      `    return this.http.request(\`${url}\`, {`,
+      ...init.map((line) => `      ${line},`),
+      `    }) as Promise<${typeName}Response>;`,
+      `  }`,
+    ].join("\n");
+    return { types, method: methodSource };
+  }
+}
+
+function checkDocument(document: unknown): OpenApiDocument {
+  const version = (document as { openapi?: unknown })?.openapi;
+  if (typeof version !== "string" || !version.startsWith("3.")) {
+    const swagger = (document as { swagger?: unknown })?.swagger;
+    throw new ConfigError(
+      swagger
+        ? `Swagger ${swagger} documents are not supported; convert the document to OpenAPI 3.x first.`
+        : "Not an OpenAPI 3.x document: the `openapi` version field is missing."
+    );
+  }
+  return document as OpenApiDocument;
+}
+
+/**
+ * Source of a typed client for an OpenAPI 3.x document: one method per operation with typed
+ * path, query, header and body arguments, resolving to `HttpClientResponse`s typed per status.
+ * The client delegates to an HttpClient, so interceptors, `controlKey` and `timeout` apply.
+ *
+ * ```ts
+ * const source = generateClient(JSON.parse(await readFile('openapi.json', 'utf8')));
+ * await writeFile('src/api.ts', source);
+ * ```
+ */
+export function generateClient(document: OpenApiDocument, options: GenerateClientOptions = {}): string {
+  return new ClientWriter(checkDocument(document), options).write();
+}
+
+/**
+ * Parse an OpenAPI document written as JSON or YAML. YAML needs the optional `yaml` package.
+ */
+export async function parseOpenApiDocument(source: string): Promise<OpenApiDocument> {
+  if (/^\s*\{/.test(source)) return checkDocument(JSON.parse(source));
+  let yaml: { parse(_source: string): unknown };
+  try {
+    yaml = await import("yaml");
+  } catch {
+    throw new ConfigError("Reading YAML documents needs the yaml package: npm install --save-dev yaml");
+  }
+  return checkDocument(yaml.parse(source));
+}
+
+/**
+ * Read an OpenAPI document from `input` and return the client source, also writing it to `output` when given.
+ */
+export async function generateClientFromFile(
+  input: string,
+  options: GenerateClientOptions & { output?: string } = {}
+): Promise<string> {
+  const { output, ...generateOptions } = options;
+  const source = generateClient(await parseOpenApiDocument(await readFile(input, "utf8")), generateOptions);
+  if (output) await writeFile(output, source);
+  return source;
+}
+
+const USAGE = `Usage: ahc-openapi <openapi.json|yaml> [options]
+
+Options:
+  -o, --output <file>   Write the client to a file instead of stdout
+  -n, --name <name>     Class name (default: from the document title)
+  --base-url <url>      Default baseURL (default: the first server)
+  --import <module>     Module to import HttpClient from (default: advanced-http-client)
+  -h, --help            Show this help
+`;
+
+export interface CliOutput {
+  stdout(_text: string): void;
+  stderr(_text: string): void;
+}
+
+/**
+ * The `ahc-openapi` command. Resolves with the process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliOutput = { stdout: (text) => process.stdout.write(text), stderr: (text) => process.stderr.write(text) }
+): Promise<number> {
+  const flags: Record<string, keyof (GenerateClientOptions & { output?: string })> = {
+    "-o": "output",
+    "--output": "output",
+    "-n": "className",
+    "--name": "className",
+    "--base-url": "baseURL",
+    "--import": "importFrom",
+  };
+  const options: GenerateClientOptions & { output?: string } = {};
+  const inputs: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (arg in flags) {
+      const value = argv[++i];
+      if (value === undefined) {
+        io.stderr(`Missing value for ${arg}\n\n${USAGE}`);
+        return 2;
+      }
+      options[flags[arg]] = value;
+    } else if (arg.startsWith("-")) {
+      io.stderr(`Unknown option ${arg}\n\n${USAGE}`);
+      return 2;
+    } else {
+      inputs.push(arg);
+    }
+  }
+  if (inputs.length !== 1) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  try {
+    const source = await generateClientFromFile(inputs[0], options);
+    if (options.output) io.stderr(`Wrote ${options.output}\n`);
+    else io.stdout(source);
+    return 0;
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,173 @@
+import { CancelError, ConfigError, HttpClient, MockAdapter, parseLinkHeader } from "./index";
+import type { MockRequest } from "./index";
+import { tick } from "./test-helpers";
+
+const USERS = Array.from({ length: 7 }, (_, i) => ({ id: i + 1 }));
+
+// GitHub-style listing: `page` / `per_page` params and a Link header pointing at the next page
+function linkedPages({ url, params }: MockRequest) {
+  const page = Number(params.page ?? 1);
+  const perPage = Number(params.per_page ?? 3);
+  const next = page * perPage < USERS.length ? { link: `<${url.split("?")[0]}?page=${page + 1}&per_page=${perPage}>; rel="next"` } : undefined;
+  return { data: USERS.slice((page - 1) * perPage, page * perPage), headers: next };
+}
+
+describe("Pagination", () => {
+  let mock: MockAdapter;
+  let api: HttpClient;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+    api = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should parse Link headers", () => {
+    expect(
+      parseLinkHeader('<https://x.test/?page=2>; rel="next", <https://x.test/?page=5>; rel="last", <https://x.test/a,b>; title="a, b"; rel="prev first"')
+    ).toEqual({
+      next: "https://x.test/?page=2",
+      last: "https://x.test/?page=5",
+      prev: "https://x.test/a,b",
+      first: "https://x.test/a,b",
+    });
+    expect(parseLinkHeader("")).toEqual({});
+  });
+
+  it("should follow Link headers by default, with each page going through the interceptors", async () => {
+    mock.onGet("/users").reply(linkedPages);
+    const seen = jest.fn((res) => res);
+    api.interceptors.response.use(seen);
+
+    const ids: number[] = [];
+    for await (const user of api.paginate<{ id: number }>("/users", { params: { per_page: 3 } })) {
+      ids.push(user.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(mock.history.map((r) => r.url)).toEqual([
+      "https://api.example.com/users?per_page=3",
+      "https://api.example.com/users?page=2&per_page=3",
+      "https://api.example.com/users?page=3&per_page=3",
+    ]);
+    expect(seen).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not add the instance params again to the URL of a Link header", async () => {
+    mock.onGet("/items").reply(({ params }) => ({
+      data: [params.page ?? "1"],
+      headers: params.page ? undefined : { link: '<https://api.example.com/items?page=2&key=k>; rel="next"' },
+    }));
+    const keyed = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter, params: { key: "k" } });
+
+    expect(await keyed.paginate("/items", { params: { sort: "name" } }).toArray()).toEqual(["1", "2"]);
+    expect(mock.history.map((r) => r.url)).toEqual([
+      "https://api.example.com/items?key=k&sort=name",
+      "https://api.example.com/items?page=2&key=k",
+    ]);
+  });
+
+  it("should follow a cursor field in the body", async () => {
+    mock.onGet("/events").reply(({ params }) => {
+      const start = Number(params.after ?? 0);
+      const next = start + 2 < 5 ? String(start + 2) : null;
+      return { data: { events: [start, start + 1].filter((n) => n < 5), meta: { next_cursor: next } } };
+    });
+
+    const events = await api
+      .paginate<number>("/events", {
+        params: { type: "push" },
+        strategy: { type: "cursor", cursor: "meta.next_cursor", param: "after" },
+        items: "events",
+      })
+      .toArray();
+
+    expect(events).toEqual([0, 1, 2, 3, 4]);
+    expect(mock.history.map((r) => r.params)).toEqual([{ type: "push" }, { type: "push", after: "2" }, { type: "push", after: "4" }]);
+  });
+
+  it("should step offset/limit and page-number params until a short page", async () => {
+    mock.onGet("/offset").reply(({ params }) => ({
+      data: USERS.slice(Number(params.offset), Number(params.offset) + Number(params.limit)),
+    }));
+    mock.onGet("/numbered").reply(({ params }) => ({ data: { results: USERS.slice((Number(params.p) - 1) * 4, Number(params.p) * 4) } }));
+
+    const offset = await api.paginate("/offset", { strategy: { type: "offset", limit: 3 } }).toArray();
+    expect(offset).toEqual(USERS);
+    expect(mock.history.map((r) => r.params.offset)).toEqual(["0", "3", "6"]);
+
+    mock.resetHistory();
+    const numbered = api.paginate("/numbered", { strategy: { type: "page", pageParam: "p" }, items: (data: any) => data.results });
+    expect(await numbered.toArray()).toEqual(USERS);
+    // Page numbers stop on the first empty page when the page size is unknown
+    expect(mock.history.map((r) => r.params.p)).toEqual(["1", "2", "3"]);
+  });
+
+  it("should use a custom getNextRequest and hand out whole pages", async () => {
+    mock.onPost("/search").reply(({ params }: MockRequest) => {
+      const from = Number(params.from ?? 0);
+      return { data: { hits: USERS.slice(from, from + 4), total: USERS.length } };
+    });
+
+    const paginator = api.paginate<{ id: number }, { hits: { id: number }[]; total: number }>("/search", {
+      method: "POST",
+      data: { query: "ada" },
+      getNextRequest: (res, { itemCount, request }) =>
+        itemCount < res.data.total ? { params: { ...request.params, from: itemCount } } : null,
+      items: "hits",
+    });
+    const pages = [];
+    for await (const page of paginator.pages()) pages.push(page.data.hits.length);
+
+    expect(pages).toEqual([4, 3]);
+    expect(mock.history.map((r) => r.params)).toEqual([{}, { from: "4" }]);
+    expect(mock.history[1].body).toEqual({ query: "ada" });
+  });
+
+  it("should stop at maxPages and maxItems", async () => {
+    mock.onGet("/users").reply(linkedPages);
+
+    expect(await api.paginate("/users", { params: { per_page: 2 }, maxPages: 2 }).toArray()).toHaveLength(4);
+    mock.resetHistory();
+    expect(await api.paginate("/users", { params: { per_page: 2 }, maxItems: 3 }).toArray()).toEqual(USERS.slice(0, 3));
+    expect(mock.history).toHaveLength(2);
+  });
+
+  it("should cancel the walk through its controlKey", async () => {
+    mock.onGet("/users").reply(linkedPages);
+    const paginator = api.paginate("/users", { params: { per_page: 1 }, controlKey: "users" });
+    const iterator = paginator[Symbol.asyncIterator]();
+
+    expect((await iterator.next()).value).toEqual({ id: 1 });
+    HttpClient.cancelRequest("users");
+    const err = await iterator.next().catch((e) => e);
+
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.controlKey).toBe("users");
+    expect(paginator.closed).toBe(true);
+    expect(mock.history).toHaveLength(1);
+    // The key is free again
+    expect(() => api.paginate("/users", { controlKey: "users" })).not.toThrow();
+  });
+
+  it("should cancel a page that is in flight", async () => {
+    mock.onGet("/slow").delay(1000).reply(200, []);
+    const pending = api.paginate("/slow", { controlKey: "slow" }).toArray().catch((e) => e);
+    await tick();
+
+    HttpClient.cancelRequest("slow");
+    expect(await pending).toBeInstanceOf(CancelError);
+  });
+
+  it("should reject bodies without items and a second iteration", async () => {
+    mock.onGet("/object").reply(200, { results: [] });
+
+    const paginator = api.paginate("/object");
+    await expect(paginator.toArray()).rejects.toBeInstanceOf(ConfigError);
+    expect(() => paginator.pages()).toThrow("A paginator can only be iterated once.");
+  });
+});
@@ -0,0 +1,308 @@
+import { CancelError, ConfigError, isCancel } from "./errors.js";
+import type { HttpClientResponse } from "./index.js";
+
+/**
+ * Follow the `Link` response header (RFC 8288), as GitHub and GitLab send it.
+ */
+export interface LinkPagination {
+  type: "link";
+  /**
+   * Relation of the link to follow (default "next").
+   */
+  rel?: string;
+}
+
+/**
+ * Send a cursor read from the page body as a query parameter, until the body has none.
+ */
+export interface CursorPagination {
+  type: "cursor";
+  /**
+   * Dotted path to the next cursor in the body (e.g. "meta.next_cursor"), or a function returning it.
+   */
+  cursor: string | ((_data: any) => unknown);
+  /**
+   * Query parameter carrying the cursor.
+   */
+  param: string;
+}
+
+/**
+ * Step an offset query parameter by `limit`, until a page holds fewer than `limit` items.
+ */
+export interface OffsetPagination {
+  type: "offset";
+  limit: number;
+  /**
+   * First offset (default 0).
+   */
+  offset?: number;
+  offsetParam?: string;
+  limitParam?: string;
+}
+
+/**
+ * Count a page number query parameter up, until a page is empty (or short of `perPage`).
+ */
+export interface PageNumberPagination {
+  type: "page";
+  /**
+   * First page number (default 1).
+   */
+  page?: number;
+  pageParam?: string;
+  perPage?: number;
+  perPageParam?: string;
+}
+
+export type PaginationStrategy = LinkPagination | CursorPagination | OffsetPagination | PageNumberPagination;
+
+/**
+ * The request for a page. With a `url` the instance and first request `params` are dropped,
+ * since the URL carries its own query; otherwise `params` are merged into them.
+ */
+export interface PageRequest {
+  url?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface PaginationContext {
+  /**
+   * 1-based number of the page that was just fetched.
+   */
+  page: number;
+  /**
+   * Items read so far, this page included. Stays 0 for `pages()` when the body is not an
+   * array and no `items` option says where they are.
+   */
+  itemCount: number;
+  /**
+   * The request that fetched the page.
+   */
+  request: Required<PageRequest>;
+}
+
+export interface PaginationConfig<T = unknown, TPage = unknown> {
+  /**
+   * How to find the next page (default: the `Link` header).
+   */
+  strategy?: PaginationStrategy;
+  /**
+   * Custom strategy: the next page's request, or null/undefined to stop. Replaces `strategy`.
+   */
+  getNextRequest?: (
+    _response: HttpClientResponse<TPage>,
+    _context: PaginationContext
+  ) => PageRequest | null | undefined | Promise<PageRequest | null | undefined>;
+  /**
+   * Where the items of a page are: a dotted path into the body (e.g. "data.results") or a
+   * function. Default: the body itself, which must then be an array.
+   */
+  items?: string | ((_data: TPage, _response: HttpClientResponse<TPage>) => T[]);
+  /**
+   * Stop after this many pages.
+   */
+  maxPages?: number;
+  /**
+   * Stop once this many items were read; item iteration never yields more.
+   */
+  maxItems?: number;
+}
+
+export type PageFetcher<TPage> = (_request: Required<PageRequest>, _signal: AbortSignal) => Promise<HttpClientResponse<TPage>>;
+
+/**
+ * Parse a `Link` header into a map from each relation type to its URL. When several links
+ * share a relation the first one wins.
+ */
+export function parseLinkHeader(header: string): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const [, url, params] of header.matchAll(/<([^>]*)>((?:\s*;\s*[^;,=\s]+(?:\s*=\s*(?:"[^"]*"|[^;,]*))?)*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^;,\s]*))/i.exec(params);
+    for (const type of (rel?.[1] ?? rel?.[2] ?? "").toLowerCase().split(/\s+/)) {
+      if (type && !(type in links)) links[type] = url;
+    }
+  }
+  return links;
+}
+
+function valueAt(data: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]), data);
+}
+
+// Link URLs may be relative to the page they came with
+function resolveLink(link: string, base: string): string {
+  try {
+    return new URL(link, base).toString();
+  } catch {
+    return link;
+  }
+}
+
+function firstParams(strategy: PaginationStrategy): Record<string, unknown> {
+  switch (strategy.type) {
+    case "offset":
+      return { [strategy.offsetParam ?? "offset"]: strategy.offset ?? 0, [strategy.limitParam ?? "limit"]: strategy.limit };
+    case "page":
+      return {
+        [strategy.pageParam ?? "page"]: strategy.page ?? 1,
+        ...(strategy.perPage !== undefined && { [strategy.perPageParam ?? "per_page"]: strategy.perPage }),
+      };
+    default:
+      return {};
+  }
+}
+
+function nextRequest(
+  strategy: PaginationStrategy,
+  response: HttpClientResponse<unknown>,
+  request: Required<PageRequest>,
+  items: () => unknown[]
+): PageRequest | undefined {
+  switch (strategy.type) {
+    case "link": {
+      const link = parseLinkHeader(response.headers.link ?? "")[strategy.rel ?? "next"];
+      return link ? { url: resolveLink(link, response.config.url) } : undefined;
+    }
+    case "cursor": {
+      const cursor = typeof strategy.cursor === "function" ? strategy.cursor(response.data) : valueAt(response.data, strategy.cursor);
+      return cursor == null || cursor === "" ? undefined : { params: { [strategy.param]: cursor } };
+    }
+    case "offset": {
+      if (items().length < strategy.limit) return undefined;
+      const param = strategy.offsetParam ?? "offset";
+      return { params: { [param]: Number(request.params[param]) + strategy.limit } };
+    }
+    case "page": {
+      const count = items().length;
+      if (count === 0 || (strategy.perPage !== undefined && count < strategy.perPage)) return undefined;
+      const param = strategy.pageParam ?? "page";
+      return { params: { [param]: Number(request.params[param]) + 1 } };
+    }
+  }
+}
+
+/**
+ * Pages of a paginated endpoint, fetched one at a time as they are consumed. Iterating the
+ * paginator yields items; `pages()` yields the page responses instead. Can be iterated once;
+ * leaving the loop stops it, and `close()` or cancelling its controlKey rejects with CancelError.
+ */
+export class Paginator<T = unknown, TPage = unknown> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<TPage>;
+  private readonly first: Required<PageRequest>;
+  private readonly config: PaginationConfig<T, TPage>;
+  private readonly controller: AbortController;
+  private readonly onClose: () => void;
+  private started = false;
+
+  constructor(
+    fetchPage: PageFetcher<TPage>,
+    first: Required<PageRequest>,
+    config: PaginationConfig<T, TPage>,
+    controller: AbortController,
+    onClose: () => void
+  ) {
+    this.fetchPage = fetchPage;
+    this.config = config;
+    this.controller = controller;
+    this.onClose = onClose;
+    const strategy = config.getNextRequest ? undefined : config.strategy;
+    this.first = strategy ? { ...first, params: { ...first.params, ...firstParams(strategy) } } : first;
+  }
+
+  /**
+   * True once the paginator was closed or cancelled.
+   */
+  get closed(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  close(): void {
+    this.controller.abort();
+    this.onClose();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.iterate(true) as AsyncGenerator<T>;
+  }
+
+  /**
+   * Iterate over the page responses rather than their items.
+   */
+  pages(): AsyncIterableIterator<HttpClientResponse<TPage>> {
+    return this.iterate(false) as AsyncGenerator<HttpClientResponse<TPage>>;
+  }
+
+  /**
+   * Read every item into an array; mind `maxItems` / `maxPages` on large collections.
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) items.push(item);
+    return items;
+  }
+
+  private iterate(byItem: boolean): AsyncGenerator<T | HttpClientResponse<TPage>> {
+    if (this.started) {
+      throw new Error("A paginator can only be iterated once.");
+    }
+    this.started = true;
+    return this.run(byItem);
+  }
+
+  private itemsOf(response: HttpClientResponse<TPage>): T[] {
+    const { items } = this.config;
+    const found = typeof items === "function" ? items(response.data, response) : items ? valueAt(response.data, items) : response.data;
+    if (!Array.isArray(found)) {
+      throw new ConfigError(
+        items
+          ? `Expected an array of items at '${typeof items === "string" ? items : "items()"}' in the page body.`
+          : "The page body is not an array; use the `items` option to say where its items are."
+      );
+    }
+    return found;
+  }
+
+  private async *run(byItem: boolean): AsyncGenerator<T | HttpClientResponse<TPage>> {
+    const { strategy = { type: "link" }, getNextRequest, maxPages = Infinity, maxItems = Infinity } = this.config;
+    const signal = this.controller.signal;
+    let request: Required<PageRequest> | undefined = this.first;
+    let page = 0;
+    let itemCount = 0;
+
+    try {
+      while (request && page < maxPages && itemCount < maxItems) {
+        // Cancelled while the previous page was being consumed
+        if (signal.aborted) {
+          throw isCancel(signal.reason) ? signal.reason : new CancelError(undefined, { cause: signal.reason });
+        }
+        const response = await this.fetchPage(request, signal);
+        page++;
+        let items: T[] | undefined;
+        const pageItems = () => (items ??= this.itemsOf(response));
+
+        if (byItem) {
+          for (const item of pageItems()) {
+            if (itemCount >= maxItems) break;
+            itemCount++;
+            yield item;
+          }
+        } else {
+          // Pages are counted by items only where their items can be found
+          if (this.config.items || maxItems !== Infinity || Array.isArray(response.data)) itemCount += pageItems().length;
+          yield response;
+        }
+
+        const context: PaginationContext = { page, itemCount, request };
+        const next: PageRequest | null | undefined = getNextRequest
+          ? await getNextRequest(response, context)
+          : nextRequest(strategy, response as HttpClientResponse<unknown>, request, pageItems);
+        request = next
+          ? { url: next.url ?? request.url, params: next.url ? next.params ?? {} : { ...request.params, ...next.params } }
+          : undefined;
+      }
+    } finally {
+      this.close();
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { HttpClient, serializeParams, appendQuery } from "./index";
+import { fakeResponse } from "./test-helpers";
+
+describe("serializeParams", () => {
+  it("should drop undefined and null values", () => {
+    expect(serializeParams({ a: 1, b: undefined, c: null, d: "x" })).toBe("a=1&d=x");
+  });
+
+  it("should encode keys and values", () => {
+    expect(serializeParams({ "full name": "Jane Doe", q: "a&b=c" })).toBe("full%20name=Jane%20Doe&q=a%26b%3Dc");
+  });
+
+  it("should use bracket notation for nested objects", () => {
+    expect(serializeParams({ filter: { status: "open", owner: { id: 7 } } })).toBe(
+      "filter[status]=open&filter[owner][id]=7"
+    );
+  });
+
+  it("should support bracket, repeat and comma array styles", () => {
+    const params = { ids: [1, 2, null, 3] };
+    expect(serializeParams(params)).toBe("ids[]=1&ids[]=2&ids[]=3");
+    expect(serializeParams(params, { arrayFormat: "repeat" })).toBe("ids=1&ids=2&ids=3");
+    expect(serializeParams(params, { arrayFormat: "comma" })).toBe("ids=1,2,3");
+    expect(serializeParams({ ids: [] }, { arrayFormat: "comma" })).toBe("");
+  });
+
+  it("should index objects nested in arrays", () => {
+    expect(serializeParams({ sort: [{ field: "name" }, { field: "age" }] }, { arrayFormat: "comma" })).toBe(
+      "sort[0][field]=name&sort[1][field]=age"
+    );
+  });
+
+  it("should serialize dates as ISO strings by default", () => {
+    const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+    expect(serializeParams({ since: date })).toBe("since=2024-01-02T03%3A04%3A05.000Z");
+    expect(serializeParams({ since: date }, { serializeDate: (d) => String(d.getTime()) })).toBe(
+      `since=${date.getTime()}`
+    );
+  });
+});
+
+describe("appendQuery", () => {
+  it("should add, extend and preserve hash fragments", () => {
+    expect(appendQuery("/users", "a=1")).toBe("/users?a=1");
+    expect(appendQuery("/users?page=2", "a=1")).toBe("/users?page=2&a=1");
+    expect(appendQuery("/users?", "a=1")).toBe("/users?a=1");
+    expect(appendQuery("/users#top", "a=1")).toBe("/users?a=1#top");
+    expect(appendQuery("/users?page=2#top", "a=1")).toBe("/users?page=2&a=1#top");
+    expect(appendQuery("/users", "")).toBe("/users");
+  });
+});
+
+describe("HttpClient params option", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should merge instance params with per-request params", async () => {
+    const client = HttpClient.create({
+      baseURL: "https://api.example.com",
+      params: { apiKey: "k", page: 1 },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    const res = await client.get("/items?sort=asc#list", { params: { page: 2, tags: ["a", "b"] } } as any);
+
+    const expected = "https://api.example.com/items?sort=asc&apiKey=k&page=2&tags[]=a&tags[]=b#list";
+    expect(fetchSpy.mock.calls[0][0]).toBe(expected);
+    expect(res.config.url).toBe(expected);
+    expect((fetchSpy.mock.calls[0][1] as any).params).toBeUndefined();
+  });
+
+  it("should use instance-level serializer options", async () => {
+    const client = HttpClient.create({ paramsSerializer: { arrayFormat: "repeat" } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    await client.get("/items", { params: { id: [1, 2] } } as any);
+    expect(fetchSpy.mock.calls[0][0]).toBe("/items?id=1&id=2");
+  });
+
+  it("should call a custom paramsSerializer", async () => {
+    const client = HttpClient.create();
+    const serializer = jest.fn(() => "?custom=yes");
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    await client.get("/items", { params: { a: 1 }, paramsSerializer: serializer } as any);
+    expect(serializer).toHaveBeenCalledWith({ a: 1 });
+    expect(fetchSpy.mock.calls[0][0]).toBe("/items?custom=yes");
+  });
+
+  it("should let request interceptors change params", async () => {
+    const client = HttpClient.create();
+    client.interceptors.request.use((config) => {
+      config.params = { ...config.params, injected: true };
+      return config;
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse());
+
+    await client.get("/items");
+    expect(fetchSpy.mock.calls[0][0]).toBe("/items?injected=true");
+  });
+});
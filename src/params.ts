@@ -0,0 +1,93 @@
+/**
+ * How array values are written to the query string:
+ * - "brackets": `ids[]=1&ids[]=2`
+ * - "repeat":   `ids=1&ids=2`
+ * - "comma":    `ids=1,2`
+ */
+export type ParamsArrayFormat = "brackets" | "repeat" | "comma";
+
+export interface ParamsSerializerOptions {
+  /**
+   * Array style (default "brackets").
+   */
+  arrayFormat?: ParamsArrayFormat;
+  /**
+   * Converts Date values to strings (default `date.toISOString()`).
+   */
+  serializeDate?: (_date: Date) => string;
+}
+
+/**
+ * Custom serializer: receives the merged params and returns the query string without a leading "?".
+ */
+export interface ParamsSerializer {
+  (_params: Record<string, unknown>): string;
+}
+
+// Keep brackets readable in keys such as `filter[status]` or `ids[]`
+function encodeKey(key: string): string {
+  return encodeURIComponent(key).replace(/%5B/gi, "[").replace(/%5D/gi, "]");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value);
+}
+
+/**
+ * Serialize a params object into a query string (without a leading "?").
+ * `undefined` and `null` values are dropped, nested objects use bracket notation
+ * (`filter[status]=open`) and arrays follow `arrayFormat`.
+ */
+export function serializeParams(
+  params: Record<string, unknown>,
+  options: ParamsSerializerOptions = {}
+): string {
+  const arrayFormat = options.arrayFormat ?? "brackets";
+  const serializeDate = options.serializeDate ?? ((date: Date) => date.toISOString());
+  const parts: string[] = [];
+
+  const encodeValue = (value: unknown): string =>
+    encodeURIComponent(value instanceof Date ? serializeDate(value) : String(value));
+
+  const append = (key: string, value: unknown): void => {
+    if (value === undefined || value === null) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item !== undefined && item !== null);
+      if (arrayFormat === "comma" && !items.some(isPlainObject)) {
+        if (items.length) parts.push(`${encodeKey(key)}=${items.map(encodeValue).join(",")}`);
+        return;
+      }
+      items.forEach((item, index) => {
+        if (isPlainObject(item)) {
+          append(`${key}[${index}]`, item);
+        } else {
+          append(arrayFormat === "repeat" ? key : `${key}[]`, item);
+        }
+      });
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      Object.keys(value).forEach((child) => append(`${key}[${child}]`, value[child]));
+      return;
+    }
+
+    parts.push(`${encodeKey(key)}=${encodeValue(value)}`);
+  };
+
+  Object.keys(params).forEach((key) => append(key, params[key]));
+  return parts.join("&");
+}
+
+/**
+ * Append a serialized query string to a URL, keeping any existing query and hash fragment intact.
+ */
+export function appendQuery(url: string, query: string): string {
+  if (!query) return url;
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const separator = base.indexOf("?") === -1 ? "?" : /[?&]$/.test(base) ? "" : "&";
+  return base + separator + query + hash;
+}
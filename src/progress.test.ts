@@ -0,0 +1,143 @@
+import { HttpClient, HttpProgressEvent } from "./index";
+import { bodySize, prepareUpload, reportUploadComplete, supportsRequestStreams, trackDownload } from "./progress";
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+describe("Progress events", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should report download progress with total and percent from Content-Length", async () => {
+    const body = JSON.stringify({ items: Array.from({ length: 50 }, (_, i) => i) });
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(
+      new Response(body, {
+        status: 200,
+        headers: { "content-type": "application/json", "content-length": String(body.length) },
+      })
+    );
+    const events: HttpProgressEvent[] = [];
+
+    const res = await HttpClient.get<{ items: number[] }>("https://api.example.com/list", {
+      onDownloadProgress: (e: HttpProgressEvent) => events.push(e),
+    } as any);
+
+    expect(res.data.items).toHaveLength(50);
+    const last = events[events.length - 1];
+    expect(last.done).toBe(true);
+    expect(last.loaded).toBe(body.length);
+    expect(last.total).toBe(body.length);
+    expect(last.percent).toBe(100);
+    expect(events.slice(0, -1).every((e) => !e.done)).toBe(true);
+  });
+
+  it("should leave total unknown for encoded downloads", async () => {
+    const response = new Response("abc", {
+      headers: { "content-encoding": "gzip", "content-length": "3" },
+    });
+    const events: HttpProgressEvent[] = [];
+    const tracked = trackDownload(response, (e) => events.push(e));
+
+    expect(await tracked.text()).toBe("abc");
+    expect(events[events.length - 1]).toMatchObject({ loaded: 3, total: undefined, done: true });
+    expect(events[0].percent).toBeUndefined();
+  });
+
+  it("should return bodiless responses untouched", () => {
+    const response = new Response(null, { status: 204 });
+    expect(trackDownload(response, () => undefined)).toBe(response);
+  });
+
+  it("should stream buffered uploads in chunks and recreate the body per attempt", async () => {
+    const payload = "x".repeat(150 * 1024);
+    const events: HttpProgressEvent[] = [];
+    const upload = await prepareUpload(payload, (e) => events.push(e));
+
+    expect(upload.contentType).toBe("text/plain;charset=UTF-8");
+    expect((await readAll(upload.createBody())).byteLength).toBe(payload.length);
+    expect(events.filter((e) => !e.done)).toHaveLength(3);
+    expect(events[events.length - 1]).toMatchObject({ loaded: payload.length, total: payload.length, percent: 100 });
+
+    expect((await readAll(upload.createBody())).byteLength).toBe(payload.length);
+  });
+
+  it("should keep the multipart boundary when uploading FormData", async () => {
+    const form = new FormData();
+    form.append("name", "report");
+    const upload = await prepareUpload(form, () => undefined);
+
+    expect(upload.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    const text = new TextDecoder().decode(await readAll(upload.createBody()));
+    expect(text).toContain('name="name"');
+  });
+
+  it("should only send a streamed upload once", async () => {
+    const source = new Response("data").body as ReadableStream<Uint8Array>;
+    const upload = await prepareUpload(source, () => undefined);
+
+    await readAll(upload.createBody());
+    expect(() => upload.createBody()).toThrow("A streamed request body can only be sent once; disable retries for it.");
+  });
+
+  it("should keep buffered uploads buffered and report them once they complete", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(new Response(null, { status: 201 }));
+    const events: HttpProgressEvent[] = [];
+
+    await HttpClient.post("https://api.example.com/upload", { name: "report" }, {
+      onUploadProgress: (e: HttpProgressEvent) => events.push(e),
+    });
+
+    const opts = fetchSpy.mock.calls[0][1] as any;
+    expect(opts.body).toBe('{"name":"report"}');
+    expect(opts.duplex).toBeUndefined();
+    expect(events).toEqual([expect.objectContaining({ loaded: 17, total: 17, done: true })]);
+  });
+
+  it("should send uploads as a stream with streamUpload when the runtime supports it", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockImplementation(async (_url: any, opts: any) => {
+      await readAll(opts.body);
+      return new Response(null, { status: 201 });
+    });
+    const events: HttpProgressEvent[] = [];
+
+    await HttpClient.post("https://api.example.com/upload", { name: "report" }, {
+      onUploadProgress: (e: HttpProgressEvent) => events.push(e),
+      streamUpload: true,
+    });
+
+    const opts = fetchSpy.mock.calls[0][1] as any;
+    expect(supportsRequestStreams()).toBe(true);
+    expect(opts.body).toBeInstanceOf(ReadableStream);
+    expect(opts.duplex).toBe("half");
+    expect(opts.headers["Content-Type"]).toBe("application/json");
+    expect(opts.onUploadProgress).toBeUndefined();
+    expect(opts.streamUpload).toBeUndefined();
+    expect(events[events.length - 1]).toMatchObject({ loaded: 17, total: 17, done: true });
+  });
+
+  it("should report a single completion event as the fallback", () => {
+    const events: HttpProgressEvent[] = [];
+    reportUploadComplete("hello", (e) => events.push(e));
+    expect(events).toEqual([{ loaded: 5, total: 5, percent: 100, estimated: 0, done: true }]);
+
+    expect(bodySize(new Uint8Array(4))).toBe(4);
+    expect(bodySize(new Blob(["abc"]))).toBe(3);
+    expect(bodySize(new URLSearchParams({ a: "1" }))).toBe(3);
+    expect(bodySize(new FormData())).toBeUndefined();
+  });
+});
@@ -0,0 +1,215 @@
+import { ConfigError } from "./errors.js";
+
+/**
+ * Transfer progress reported to `onUploadProgress` / `onDownloadProgress`.
+ */
+export interface HttpProgressEvent {
+  /**
+   * Bytes transferred so far.
+   */
+  loaded: number;
+  /**
+   * Total bytes when known (Content-Length for downloads, body size for uploads).
+   */
+  total?: number;
+  /**
+   * Percentage between 0 and 100 when `total` is known.
+   */
+  percent?: number;
+  /**
+   * Average transfer rate in bytes per second.
+   */
+  rate?: number;
+  /**
+   * Estimated seconds remaining when `total` is known.
+   */
+  estimated?: number;
+  /**
+   * True for the final event of the transfer.
+   */
+  done: boolean;
+}
+
+export interface ProgressCallback {
+  (_event: HttpProgressEvent): void;
+}
+
+// Size of the chunks handed to fetch when streaming a buffered upload
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Turns byte counts into progress events, with rate and remaining time when the total is known.
+ */
+export class ProgressTracker {
+  private loaded = 0;
+  private readonly startedAt = Date.now();
+  private readonly callback: ProgressCallback;
+  private readonly total?: number;
+
+  constructor(callback: ProgressCallback, total?: number) {
+    this.callback = callback;
+    this.total = total;
+  }
+
+  add(bytes: number): void {
+    this.loaded += bytes;
+    this.emit(false);
+  }
+
+  finish(): void {
+    this.emit(true);
+  }
+
+  private emit(done: boolean): void {
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const rate = elapsed > 0 ? this.loaded / elapsed : undefined;
+    const event: HttpProgressEvent = { loaded: this.loaded, total: this.total, done };
+    if (rate !== undefined) event.rate = rate;
+    if (this.total !== undefined && this.total > 0) {
+      event.percent = Math.min(100, (this.loaded / this.total) * 100);
+      if (rate) event.estimated = Math.max(0, (this.total - this.loaded) / rate);
+    }
+    this.callback(event);
+  }
+}
+
+function countingStream(source: ReadableStream<Uint8Array>, tracker: ProgressTracker): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        tracker.finish();
+        controller.close();
+        return;
+      }
+      tracker.add(value.byteLength);
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Wrap a response so reading its body reports download progress. Returns the
+ * response unchanged when it has no body or the runtime lacks streams.
+ */
+export function trackDownload(response: Response, callback: ProgressCallback): Response {
+  if (!response.body || typeof Response === "undefined" || typeof ReadableStream === "undefined") {
+    return response;
+  }
+  // With a content encoding the stream yields decoded bytes, so Content-Length doesn't match
+  const encoding = response.headers.get("content-encoding");
+  const length = Number(response.headers.get("content-length"));
+  const total = (!encoding || encoding === "identity") && length > 0 ? length : undefined;
+
+  const tracked = countingStream(response.body, new ProgressTracker(callback, total));
+  return new Response(tracked, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+let requestStreamsSupported: boolean | undefined;
+
+/**
+ * Whether fetch can send a ReadableStream as the request body (Node 18+, Chromium 105+).
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    try {
+      let duplexAccessed = false;
+      const hasContentType = new Request("http://localhost/", {
+        body: new ReadableStream(),
+        method: "POST",
+        get duplex() {
+          duplexAccessed = true;
+          return "half";
+        },
+      } as RequestInit).headers.has("Content-Type");
+      requestStreamsSupported = duplexAccessed && !hasContentType;
+    } catch {
+      requestStreamsSupported = false;
+    }
+  }
+  return requestStreamsSupported;
+}
+
+/**
+ * Upload body that reports progress. `createBody` returns a fresh stream for every attempt.
+ */
+export interface TrackedUpload {
+  createBody(): ReadableStream<Uint8Array>;
+  /**
+   * Content-Type produced by the runtime for the original body (e.g. the multipart boundary).
+   */
+  contentType?: string;
+}
+
+/**
+ * Prepare a progress-reporting streaming body. Buffered bodies (strings, binary,
+ * Blob, FormData, URLSearchParams) are encoded once so their size is known;
+ * ReadableStreams are wrapped as they are and can only be sent once.
+ */
+export async function prepareUpload(body: BodyInit, callback: ProgressCallback): Promise<TrackedUpload> {
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+    let used = false;
+    return {
+      createBody: () => {
+        if (used) throw new ConfigError("A streamed request body can only be sent once; disable retries for it.");
+        used = true;
+        return countingStream(body as ReadableStream<Uint8Array>, new ProgressTracker(callback));
+      },
+    };
+  }
+
+  // Let the runtime encode the body exactly as fetch would
+  const encoded = new Response(body);
+  const contentType = encoded.headers.get("content-type") ?? undefined;
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  return {
+    contentType,
+    createBody: () => {
+      const tracker = new ProgressTracker(callback, bytes.byteLength);
+      let offset = 0;
+      return new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset >= bytes.byteLength) {
+            tracker.finish();
+            controller.close();
+            return;
+          }
+          const chunk = bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+          offset += chunk.byteLength;
+          tracker.add(chunk.byteLength);
+          controller.enqueue(chunk);
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Size in bytes of a body when it can be known without reading it.
+ */
+export function bodySize(body: unknown): number | undefined {
+  if (typeof body === "string") return new TextEncoder().encode(body).byteLength;
+  if (typeof Blob !== "undefined" && body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams) {
+    return new TextEncoder().encode(body.toString()).byteLength;
+  }
+  return undefined;
+}
+
+/**
+ * Report a finished upload in one event, for runtimes without streaming request bodies.
+ */
+export function reportUploadComplete(body: unknown, callback: ProgressCallback): void {
+  const total = bodySize(body);
+  const loaded = total ?? 0;
+  callback({ loaded, total, percent: total !== undefined ? 100 : undefined, estimated: 0, done: true });
+}
@@ -0,0 +1,118 @@
+import { HttpClient, HttpStatusError, ParseError } from "./index";
+import { fakeResponse } from "./test-helpers";
+
+describe("Response handling", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should parse +json vendor types as JSON", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ text: '{"title":"Oops"}', headers: { "content-type": "application/problem+json" } }));
+    expect((await client.get("/problem")).data).toEqual({ title: "Oops" });
+
+    fetchSpy.mockResolvedValueOnce(
+      fakeResponse({ text: '{"data":[]}', headers: { "content-type": "application/vnd.api+json; charset=utf-8" } })
+    );
+    expect((await client.get("/jsonapi")).data).toEqual({ data: [] });
+  });
+
+  it("should honour an explicit responseType over the Content-Type", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch");
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ text: '{"a":1}', headers: { "content-type": "text/plain" } }));
+    expect((await client.get("/json-as-text", { responseType: "json" } as any)).data).toEqual({ a: 1 });
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ text: '{"a":1}' }));
+    expect((await client.get("/text", { responseType: "text" } as any)).data).toBe('{"a":1}');
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ headers: { "content-type": "" } }));
+    expect((await client.get("/blob", { responseType: "blob" } as any)).data).toBe("blob");
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ headers: { "content-type": "" } }));
+    expect((await client.get("/buffer", { responseType: "arrayBuffer" } as any)).data).toBe("buffer");
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ headers: { "content-type": "" } }));
+    expect((await client.get("/form", { responseType: "formData" } as any)).data).toBe("form");
+
+    fetchSpy.mockResolvedValueOnce(fakeResponse({ headers: { "content-type": "" }, body: new Response("chunk").body }));
+    const streamed = (await client.get<ReadableStream>("/stream", { responseType: "stream" } as any)).data;
+    expect(streamed).toBeInstanceOf(ReadableStream);
+    expect(await new Response(streamed).text()).toBe("chunk");
+  });
+
+  it("should not read the body for responseType none", async () => {
+    const client = HttpClient.create({ responseType: "none" });
+    const response = fakeResponse({ text: '{"a":1}' });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValueOnce(response);
+
+    const res = await client.get("/none");
+    expect(res.data).toBeUndefined();
+    expect(response.text).not.toHaveBeenCalled();
+    expect((fetchSpy.mock.calls[0][1] as any).responseType).toBeUndefined();
+  });
+
+  it("should read JSON bodies once as text, without cloning the response", async () => {
+    const client = HttpClient.create();
+    const response = fakeResponse({ text: "broken" });
+    const clone = jest.spyOn(response, "clone");
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(response);
+
+    expect((await client.get("/broken")).rawBody).toBe("broken");
+    expect(response.text).toHaveBeenCalledTimes(1);
+    expect(clone).not.toHaveBeenCalled();
+  });
+
+  it("should return undefined for an empty JSON body", async () => {
+    const client = HttpClient.create();
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse({ text: "", status: 201 }));
+
+    const res = await client.post("/empty", { a: 1 });
+    expect(res.data).toBeUndefined();
+  });
+
+  it("should expose rawBody instead of throwing on malformed JSON", async () => {
+    const client = HttpClient.create();
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse({ text: "<html>oops</html>" }));
+
+    const res = await client.get("/html-as-json");
+    expect(res.data).toBe("<html>oops</html>");
+    expect(res.rawBody).toBe("<html>oops</html>");
+  });
+
+  it("should reject with the response when an explicit json responseType fails to parse", async () => {
+    const client = HttpClient.create();
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse({ text: "not json" }));
+
+    const err = (await client.get("/strict", { responseType: "json" } as any).catch((e) => e)) as ParseError;
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.code).toBe("ERR_PARSE");
+    expect(err.message).toMatch(/Failed to parse response body as JSON/);
+    expect(err.rawBody).toBe("not json");
+    expect(err.response?.rawBody).toBe("not json");
+    expect(err.response?.status).toBe(200);
+  });
+
+  it("should run instance then request transformResponse chains", async () => {
+    const client = HttpClient.create({
+      transformResponse: (data: any, headers, status) => ({ ...data, status, type: headers["content-type"] }),
+    });
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse({ text: '{"a":1}' }));
+
+    const res = await client.get("/transform", {
+      transformResponse: [(data: any) => ({ ...data, request: true })],
+    } as any);
+    expect(res.data).toEqual({ a: 1, status: 200, type: "application/json", request: true });
+  });
+
+  it("should transform error responses as well", async () => {
+    const client = HttpClient.create({ transformResponse: (data: any) => ({ wrapped: data }) });
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(fakeResponse({ text: '{"e":1}', status: 500 }));
+
+    const err = (await client.get("/fail").catch((e) => e)) as HttpStatusError;
+    expect(err.response.data).toEqual({ wrapped: { e: 1 } });
+  });
+});
@@ -0,0 +1,188 @@
+import { CancelError, ConfigError, HttpClient, HttpStatusError, MockAdapter, NetworkError } from "./index";
+import { fakeResponse } from "./test-helpers";
+
+describe("Retry engine", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    HttpClient.cancelAllRequests();
+  });
+
+  it("should not retry when no retry policy is configured", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 503 }));
+
+    await expect(client.get("/no-retry")).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry retryable statuses and report the attempt number", async () => {
+    const client = HttpClient.create({ retry: { retries: 3, baseDelay: 1, jitter: "none" } });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(fakeResponse({ status: 500 }))
+      .mockResolvedValueOnce(fakeResponse({ status: 502 }))
+      .mockResolvedValueOnce(fakeResponse({ data: { done: true } }));
+
+    const res = await client.get("/flaky");
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(res.data).toEqual({ done: true });
+    expect(res.config.attempt).toBe(3);
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    const client = HttpClient.create({ retry: { retries: 2, baseDelay: 1 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 500 }));
+
+    const err = (await client.get("/down").catch((e) => e)) as HttpStatusError;
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(err.response.status).toBe(500);
+    expect(err.response.config.attempt).toBe(3);
+  });
+
+  it("should not retry methods outside the allowed list", async () => {
+    const client = HttpClient.create({ retry: { retries: 2, baseDelay: 1 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 503 }));
+
+    await expect(client.post("/create", { a: 1 })).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry statuses outside the allowed list", async () => {
+    const client = HttpClient.create({ retry: { retries: 2, baseDelay: 1 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 404 }));
+
+    await expect(client.get("/missing")).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry network errors unless disabled", async () => {
+    const client = HttpClient.create({ retry: { retries: 1, baseDelay: 1 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(fakeResponse({}));
+
+    const res = await client.get("/network");
+    expect(res.config.attempt).toBe(2);
+
+    fetchSpy.mockReset().mockRejectedValue(new TypeError("fetch failed"));
+    await expect(
+      client.get("/network", { retry: { retries: 1, retryOnNetworkError: false } } as any)
+    ).rejects.toThrow("fetch failed");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry adapter errors that are not network errors or timeouts", async () => {
+    const mock = new MockAdapter();
+    const client = HttpClient.create({ adapter: mock.adapter, retry: { retries: 2, baseDelay: 1 } });
+
+    // No route matches, so the mock rejects with a ConfigError
+    await expect(client.get("/unmatched")).rejects.toBeInstanceOf(ConfigError);
+    expect(mock.history).toHaveLength(1);
+  });
+
+  it("should not retry requests with a stream body", async () => {
+    const client = HttpClient.create({ retry: { retries: 2, baseDelay: 1 } });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+
+    const err = await client.put("/upload", new Blob(["data"]).stream()).catch((e) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.message).toContain("fetch failed");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockResolvedValue(fakeResponse({ status: 503 }));
+    await expect(client.put("/upload", new Blob(["data"]).stream())).rejects.toBeInstanceOf(HttpStatusError);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should let a per-request policy disable the instance policy", async () => {
+    const client = HttpClient.create({ retry: 3 });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 500 }));
+
+    await expect(client.get("/off", { retry: false } as any)).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should honour Retry-After on 429 responses", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ retry: { retries: 1, baseDelay: 1, jitter: "none" } });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(fakeResponse({ status: 429, headers: { "retry-after": "2" } }))
+      .mockResolvedValueOnce(fakeResponse({}));
+
+    const p = client.get("/limited");
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(600);
+    const res = await p;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(res.status).toBe(200);
+  });
+
+  it("should stop retrying once maxElapsedTime would be exceeded", async () => {
+    const client = HttpClient.create({
+      retry: { retries: 5, baseDelay: 1000, jitter: "none", maxElapsedTime: 500 },
+    });
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 503 }));
+
+    await expect(client.get("/budget")).rejects.toBeDefined();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep delays within the jitter bounds", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    jest.useFakeTimers();
+    const client = HttpClient.create({ retry: { retries: 1, baseDelay: 1000, jitter: "equal" } });
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(fakeResponse({ status: 500 }))
+      .mockResolvedValueOnce(fakeResponse({}));
+
+    const p = client.get("/jitter");
+    // equal jitter: 500 + 0.5 * 500 = 750ms
+    await jest.advanceTimersByTimeAsync(700);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(100);
+    await p;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use a fresh signal per attempt and retry after a timeout", async () => {
+    jest.useFakeTimers();
+    const client = HttpClient.create({ timeout: 100, retry: { retries: 1, baseDelay: 1 } });
+    const signals: AbortSignal[] = [];
+    (jest.spyOn(global as any, "fetch") as any)
+      .mockImplementationOnce((_u: string, opts: any) => {
+        signals.push(opts.signal);
+        return new Promise((_resolve, reject) => {
+          opts.signal.addEventListener("abort", () => reject(new Error("aborted")));
+        });
+      })
+      .mockImplementationOnce((_u: string, opts: any) => {
+        signals.push(opts.signal);
+        return Promise.resolve(fakeResponse({}));
+      });
+
+    const p = client.get("/slow");
+    await jest.advanceTimersByTimeAsync(150);
+    const res = await p;
+    expect(res.config.attempt).toBe(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1]).not.toBe(signals[0]);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it("should stop retrying when cancelled through controlKey during backoff", async () => {
+    const client = HttpClient.create({ retry: { retries: 3, baseDelay: 10000 } });
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(fakeResponse({ status: 503 }));
+
+    const p = client.get("/cancel-me", { controlKey: "retry-key" } as any).catch((e) => e);
+    await new Promise((r) => globalThis.setImmediate(r));
+    HttpClient.cancelRequest("retry-key");
+
+    const err = await p;
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.controlKey).toBe("retry-key");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(client["controllers"].has("retry-key")).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import Ajv from "ajv";
+import { ConfigError, HttpClient, MockAdapter, ValidationError, validateResponse } from "./index";
+import type { ResponseSchema, StandardSchemaLike } from "./index";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+// A Zod-like schema: safeParse with issues carrying their path
+const userSchema = {
+  safeParse(data: unknown): { success: true; data: User } | { success: false; error: unknown } {
+    const value = data as Partial<User>;
+    const issues = [];
+    if (typeof value?.id !== "number") issues.push({ path: ["id"], message: "Expected number" });
+    if (typeof value?.name !== "string") issues.push({ path: ["name"], message: "Expected string" });
+    return issues.length ? { success: false, error: { issues } } : { success: true, data: { id: value.id!, name: value.name! } };
+  },
+};
+
+describe("Response validation", () => {
+  let mock: MockAdapter;
+  let api: HttpClient;
+
+  beforeEach(() => {
+    mock = new MockAdapter();
+    api = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should resolve with the schema's output and infer its type", async () => {
+    mock.onGet("/users/1").reply(200, { id: 1, name: "Ada", internal: true });
+
+    const res = await api.get("/users/1", { schema: userSchema });
+    const name: string = res.data.name;
+
+    expect(name).toBe("Ada");
+    // safeParse output replaces the raw data, so stripped keys are gone
+    expect(res.data).toEqual({ id: 1, name: "Ada" });
+  });
+
+  it("should reject with a ValidationError carrying the failing path and the raw response", async () => {
+    mock.onGet("/users/2").reply(200, { id: "2" });
+
+    const err = await api.get("/users/2", { schema: userSchema }).catch((e) => e);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.code).toBe("ERR_VALIDATION");
+    expect(err.message).toBe("Response validation failed at id: Expected number (and 1 more)");
+    expect(err.path).toEqual(["id"]);
+    expect(err.issues).toEqual([
+      { path: ["id"], message: "Expected number" },
+      { path: ["name"], message: "Expected string" },
+    ]);
+    expect(err.response.status).toBe(200);
+    expect(err.response.data).toEqual({ id: "2" });
+    expect(err.config.url).toBe("https://api.example.com/users/2");
+  });
+
+  it("should validate against a Standard Schema", async () => {
+    const schema: StandardSchemaLike<number[]> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value: unknown) =>
+          Array.isArray(value) && value.every((n) => typeof n === "number")
+            ? { value }
+            : { issues: [{ message: "Expected number", path: [{ key: "items" }, { key: 1 }] }] },
+      },
+    };
+    mock.onGet("/ok").reply(200, [1, 2]);
+    mock.onGet("/bad").reply(200, [1, "2"]);
+
+    const ok = await api.get("/ok", { schema });
+    expect(ok.data.reduce((a, b) => a + b, 0)).toBe(3);
+    const err = await api.get("/bad", { schema }).catch((e) => e);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.message).toBe("Response validation failed at items[1]: Expected number");
+  });
+
+  it("should validate against a JSON Schema compiled by Ajv", async () => {
+    const validate = new Ajv({ allErrors: true }).compile<{ items: Array<{ id: number }> }>({
+      type: "object",
+      properties: {
+        items: { type: "array", items: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] } },
+      },
+      required: ["items"],
+    });
+    mock.onGet("/list").reply(200, { items: [{ id: 1 }, { id: "x" }] });
+
+    const err = await api.get("/list", { schema: validate }).catch((e) => e);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.path).toEqual(["items", 1, "id"]);
+    expect(err.message).toBe("Response validation failed at items[1].id: must be integer");
+
+    mock.onGet("/list/3").reply(200, { items: [{ id: 3 }] });
+    const ok = await api.get("/list/3", { schema: validate });
+    expect(ok.data.items[0].id).toBe(3);
+  });
+
+  it("should accept type guards and custom functions", async () => {
+    const isUser = (data: unknown): data is User => typeof (data as User)?.id === "number";
+    const toDate = (data: unknown) => {
+      if (typeof data !== "string") throw Object.assign(new Error("Expected a date string"), { path: ["createdAt"] });
+      return new Date(data);
+    };
+    mock.onGet("/user").reply(200, { id: 5, name: "Lin" });
+    mock.onGet("/created").reply(200, "2026-01-02T00:00:00.000Z");
+    mock.onGet("/nothing").reply(200, { id: null });
+
+    expect((await api.get("/user", { schema: isUser })).data.id).toBe(5);
+    const created = await api.get("/created", { schema: toDate });
+    expect(created.data.getUTCFullYear()).toBe(2026);
+
+    const guardErr = await api.get("/nothing", { schema: isUser }).catch((e) => e);
+    expect(guardErr.message).toBe("Response validation failed at (root): Value does not match the schema");
+    const fnErr = await api.get("/nothing", { schema: toDate }).catch((e) => e);
+    expect(fnErr.path).toEqual(["createdAt"]);
+    expect(fnErr.cause).toBeInstanceOf(Error);
+  });
+
+  it("should pass validation failures through error interceptors", async () => {
+    mock.onGet("/users/3").reply(200, { id: 3 });
+    const seen = jest.fn((e) => e);
+    api.interceptors.error.use(seen);
+
+    await expect(api.get("/users/3", { schema: userSchema })).rejects.toBeInstanceOf(ValidationError);
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ code: "ERR_VALIDATION", path: ["name"] }));
+  });
+
+  it("should validate cached responses and never cache invalid data", async () => {
+    const client = HttpClient.create({ baseURL: "https://api.example.com", adapter: mock.adapter, responseCache: { ttl: 60000 } });
+    const handler = jest.fn(() => ({ data: { id: 9, name: "Kai" } }));
+    mock.onGet("/users/9").reply(handler);
+
+    await client.get("/users/9");
+    const err = await client.get("/users/9", { schema: { parse: () => { throw new Error("stale shape"); } } }).catch((e) => e);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect((await client.get("/users/9", { schema: userSchema })).data).toEqual({ id: 9, name: "Kai" });
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    mock.onGet("/broken").reply(200, { id: "9" });
+    await client.get("/broken", { schema: userSchema }).catch(() => undefined);
+    await client.get("/broken", { schema: userSchema }).catch(() => undefined);
+    expect(mock.history.filter((r) => r.path === "/broken")).toHaveLength(2);
+  });
+
+  it("should reject a schema on streamed responses", async () => {
+    mock.onGet("/stream").reply(200, "a\nb");
+    await expect(api.get("/stream", { responseType: "stream", schema: userSchema as ResponseSchema })).rejects.toBeInstanceOf(
+      ConfigError
+    );
+  });
+
+  it("should validate an existing response with validateResponse", async () => {
+    mock.onGet("/users/4").reply(200, { id: 4, name: "Mo" });
+    const res = await validateResponse(await api.get("/users/4"), userSchema);
+    expect(res.data.name).toBe("Mo");
+    await expect(validateResponse({ ...res, data: {} }, userSchema)).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,160 @@
+import { ValidationError } from "./errors.js";
+import type { ValidationIssue, ValidationPath } from "./errors.js";
+import type { HttpClientResponse } from "./index.js";
+
+type PathSegment = PropertyKey | { readonly key: PropertyKey };
+
+interface StandardIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PathSegment>;
+}
+
+type StandardResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardIssue> };
+
+/**
+ * Standard Schema v1 (https://standardschema.dev), implemented by Zod 3.24+, Valibot, ArkType and others.
+ */
+export interface StandardSchemaLike<T = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    validate(_value: unknown): StandardResult<T> | Promise<StandardResult<T>>;
+    readonly types?: { readonly input: unknown; readonly output: T };
+  };
+}
+
+/**
+ * Zod-style schema with `safeParse`; `error.issues` describe the failures.
+ */
+export interface SafeParseSchema<T = unknown> {
+  safeParse(_data: unknown): { success: true; data: T } | { success: false; error: unknown };
+}
+
+/**
+ * Schema with a `parse` that returns the data or throws.
+ */
+export interface ParseSchema<T = unknown> {
+  parse(_data: unknown): T;
+}
+
+/**
+ * Type guard, or a JSON Schema validator compiled by Ajv: true means valid. Ajv's
+ * `errors` (with `instancePath`) describe the failures.
+ */
+export interface SchemaPredicate<T = unknown> {
+  (_data: unknown): _data is T;
+  errors?: ReadonlyArray<{ instancePath?: string; message?: string }> | null;
+}
+
+/**
+ * Custom validator returning the validated (possibly converted) data, or throwing.
+ * An error with a `path` array reports where the data went wrong.
+ */
+export type SchemaParser<T = unknown> = (_data: unknown) => T | Promise<T>;
+
+/**
+ * Anything `schema` accepts. The response data type is inferred from it.
+ */
+export type ResponseSchema<T = unknown> =
+  | StandardSchemaLike<T>
+  | SafeParseSchema<T>
+  | ParseSchema<T>
+  | SchemaPredicate<T>
+  | SchemaParser<T>;
+
+/**
+ * Data type produced by a schema.
+ */
+export type InferSchema<S> = S extends ResponseSchema<infer T> ? T : never;
+
+type Outcome<T> = { data: T } | { issues: ValidationIssue[]; cause?: unknown };
+
+function toPath(path: unknown): ValidationPath {
+  if (typeof path === "string") {
+    // Ajv's instancePath ("/items/0/id") or a dotted path ("items[0].id")
+    const segments = path.startsWith("/")
+      ? path.slice(1).split("/").map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+      : path.split(/[.[\]]/);
+    return segments.filter((s) => s !== "").map((s) => (/^\d+$/.test(s) ? Number(s) : s));
+  }
+  if (!Array.isArray(path)) return [];
+  return path.map((segment: PathSegment) => {
+    const key = typeof segment === "object" && segment !== null ? segment.key : segment;
+    return typeof key === "number" ? key : String(key);
+  });
+}
+
+// Zod, Valibot and most libraries throw errors carrying a list of issues with a path each
+function issuesFrom(error: unknown): ValidationIssue[] {
+  const source = (typeof error === "object" && error !== null ? error : {}) as {
+    issues?: unknown;
+    errors?: unknown;
+    path?: unknown;
+    message?: unknown;
+  };
+  const list = Array.isArray(source.issues) ? source.issues : Array.isArray(source.errors) ? source.errors : undefined;
+  if (list && list.length > 0) {
+    return list.map((issue) =>
+      typeof issue === "string"
+        ? { path: toPath(source.path), message: issue }
+        : { path: toPath(issue?.path ?? issue?.instancePath), message: String(issue?.message ?? "Invalid value") }
+    );
+  }
+  const message = typeof source.message === "string" ? source.message : String(error);
+  return [{ path: toPath(source.path), message }];
+}
+
+async function runSchema<T>(data: unknown, schema: ResponseSchema<T>): Promise<Outcome<T>> {
+  if ("~standard" in schema) {
+    const result = await schema["~standard"].validate(data);
+    return result.issues
+      ? { issues: result.issues.map((issue) => ({ path: toPath(issue.path), message: issue.message })) }
+      : { data: result.value };
+  }
+  if ("safeParse" in schema && typeof schema.safeParse === "function") {
+    const result = schema.safeParse(data);
+    return result.success ? { data: result.data } : { issues: issuesFrom(result.error), cause: result.error };
+  }
+  try {
+    if ("parse" in schema && typeof schema.parse === "function") return { data: schema.parse(data) };
+    const result = await (schema as SchemaParser<T>)(data);
+    // Predicates answer with a boolean and keep the data as it is
+    if (result === true) return { data: data as T };
+    if (result === false) {
+      const errors = (schema as SchemaPredicate<T>).errors;
+      return {
+        issues: errors?.length
+          ? errors.map((e) => ({ path: toPath(e.instancePath ?? ""), message: e.message ?? "Invalid value" }))
+          : [{ path: [], message: "Value does not match the schema" }],
+      };
+    }
+    return { data: result };
+  } catch (error) {
+    return { issues: issuesFrom(error), cause: error };
+  }
+}
+
+/**
+ * Check `response.data` against a schema. Resolves with a copy of the response holding
+ * the validated data (schemas may convert or strip values); rejects with ValidationError.
+ *
+ * ```ts
+ * const res = await validateResponse(await api.get('/me'), UserSchema);
+ * res.data.email; // typed from the schema
+ * ```
+ */
+export async function validateResponse<T>(
+  response: HttpClientResponse<unknown>,
+  schema: ResponseSchema<T>
+): Promise<HttpClientResponse<T>> {
+  const outcome = await runSchema(response.data, schema);
+  if ("issues" in outcome) {
+    throw new ValidationError<T>(outcome.issues, {
+      response: response as HttpClientResponse<T>,
+      cause: outcome.cause,
+    });
+  }
+  return { ...response, data: outcome.data };
+}
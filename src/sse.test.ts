@@ -0,0 +1,150 @@
+import { HttpClient, ServerSentEvent, parseEventStream } from "./index";
+
+const encoder = new TextEncoder();
+
+function eventStreamResponse(text: string, status = 200, contentType = "text/event-stream") {
+  return new Response(encoder.encode(text), { status, headers: { "content-type": contentType } });
+}
+
+// Response that stays open until the request signal aborts
+function openResponse(text: string, signal: AbortSignal) {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(text));
+      signal.addEventListener("abort", () => controller.error(signal.reason), { once: true });
+    },
+  });
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+async function* linesOf(text: string) {
+  for (const line of text.split("\n")) yield line;
+}
+
+async function collect(stream: AsyncIterable<ServerSentEvent>, count: number) {
+  const events: ServerSentEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+    if (events.length === count) break;
+  }
+  return events;
+}
+
+describe("Server-Sent Events", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    HttpClient.cancelAllRequests();
+  });
+
+  it("should parse event, data, id and retry fields", async () => {
+    const ids: string[] = [];
+    const retries: number[] = [];
+    const text = "\uFEFF: comment\nretry: 500\nevent: update\ndata: line 1\ndata:line 2\nid: 7\n\nid: 8\n\ndata: {}\n\ndata: dropped";
+    const events: ServerSentEvent[] = [];
+    for await (const event of parseEventStream(linesOf(text), {
+      onId: (id) => ids.push(id),
+      onRetry: (ms) => retries.push(ms),
+    })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: "update", data: "line 1\nline 2", id: "7" },
+      { event: "message", data: "{}", id: "8" },
+    ]);
+    expect(ids).toEqual(["7", "8"]);
+    expect(retries).toEqual([500]);
+  });
+
+  it("should go through the request pipeline with instance and global headers", async () => {
+    HttpClient.setHeader("X-Trace", "abc");
+    const client = HttpClient.create({ baseURL: "https://api.example.com", headers: { Authorization: "Bearer t" } });
+    client.interceptors.request.use((config) => ({ ...config, headers: { ...config.headers, "X-Intercepted": "1" } }));
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(eventStreamResponse("data: hello\n\n"));
+
+    const events = await collect(client.sse("/events", { params: { topic: "news" }, reconnect: false } as any), 1);
+
+    expect(events[0].data).toBe("hello");
+    const [url, init] = fetchSpy.mock.calls[0] as any;
+    expect(url).toBe("https://api.example.com/events?topic=news");
+    expect(init.headers).toMatchObject({
+      Accept: "text/event-stream",
+      Authorization: "Bearer t",
+      "X-Trace": "abc",
+      "X-Intercepted": "1",
+    });
+    delete (HttpClient as any).globalHeaders["X-Trace"];
+  });
+
+  it("should reconnect with Last-Event-ID and honour the server retry delay", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(eventStreamResponse("retry: 1\nid: 41\ndata: a\n\n"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(eventStreamResponse("id: 42\ndata: b\n\n"));
+
+    const stream = HttpClient.sse("https://api.example.com/feed", { lastEventId: "40" });
+    const events = await collect(stream, 2);
+
+    expect(events.map((e) => e.data)).toEqual(["a", "b"]);
+    expect(stream.lastEventId).toBe("42");
+    const sentIds = fetchSpy.mock.calls.map(([, init]: any) => init.headers["Last-Event-ID"]);
+    expect(sentIds).toEqual(["40", "41", "41"]);
+    expect(stream.closed).toBe(true);
+  });
+
+  it("should give up after maxRetries consecutive failures", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+    const stream = HttpClient.sse("https://api.example.com/feed", { retryDelay: 1, maxRetries: 2 });
+
+    await expect(collect(stream, 1)).rejects.toThrow("fetch failed");
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not reconnect after HTTP errors, wrong content types or 204", async () => {
+    jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(eventStreamResponse("", 401, "application/json"))
+      .mockResolvedValueOnce(eventStreamResponse("{}", 200, "application/json"))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const unauthorized = await collect(HttpClient.sse("https://api.example.com/a", { retryDelay: 1 }), 1).catch((e) => e);
+    expect(unauthorized.response.status).toBe(401);
+
+    const wrongType = await collect(HttpClient.sse("https://api.example.com/b", { retryDelay: 1 }), 1).catch((e) => e);
+    expect(wrongType.message).toBe("Expected a text/event-stream response but received 'application/json'.");
+
+    expect(await collect(HttpClient.sse("https://api.example.com/c", { retryDelay: 1 }), 1)).toEqual([]);
+  });
+
+  it("should stop the stream through controlKey", async () => {
+    const client = HttpClient.create();
+    const fetchSpy = jest.spyOn(global as any, "fetch")
+      .mockImplementation(async (_url: any, init: any) => openResponse("data: first\n\n", init.signal));
+
+    const stream = client.sse("/live", { controlKey: "live" });
+    expect(() => client.sse("/live", { controlKey: "live" })).toThrow("controlKey 'live' is already in use.");
+
+    const seen: string[] = [];
+    for await (const event of stream) {
+      seen.push(event.data);
+      HttpClient.cancelRequest("live");
+    }
+    expect(seen).toEqual(["first"]);
+    expect(stream.closed).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(client["controllers"].has("live")).toBe(false);
+  });
+
+  it("should close on demand and only allow one iteration", async () => {
+    jest.spyOn(global as any, "fetch")
+      .mockImplementation(async (_url: any, init: any) => openResponse("data: x\n\n", init.signal));
+    const stream = HttpClient.sse("https://api.example.com/live");
+    const iterator = stream[Symbol.asyncIterator]();
+
+    expect((await iterator.next()).value).toEqual({ event: "message", data: "x" });
+    expect(() => stream[Symbol.asyncIterator]()).toThrow("An event stream can only be iterated once.");
+    const pending = iterator.next();
+    stream.close();
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+});
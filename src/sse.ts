@@ -0,0 +1,200 @@
+/**
+ * A single event received from a `text/event-stream` response.
+ */
+export interface ServerSentEvent {
+  /**
+   * Event type from the `event:` field ("message" when the field is absent).
+   */
+  event: string;
+  /**
+   * Event payload; multiple `data:` lines are joined with "\n".
+   */
+  data: string;
+  /**
+   * Last event ID seen on the stream when this event was dispatched.
+   */
+  id?: string;
+}
+
+/**
+ * Reconnection behaviour of an event stream.
+ */
+export interface SSEConfig {
+  /**
+   * Reconnect when the connection drops or the server closes the stream (default true).
+   */
+  reconnect?: boolean;
+  /**
+   * Delay in milliseconds before reconnecting (default 3000). A `retry:` field from the server replaces it.
+   */
+  retryDelay?: number;
+  /**
+   * Consecutive failed connection attempts tolerated before the stream gives up (default unlimited).
+   */
+  maxRetries?: number;
+  /**
+   * Last-Event-ID to resume from on the first connection.
+   */
+  lastEventId?: string;
+}
+
+/**
+ * Opens one connection and returns its body as text lines, or undefined when the
+ * server asked the client to stop (HTTP 204).
+ */
+export interface SSEConnector {
+  (_lastEventId: string | undefined, _signal: AbortSignal): Promise<AsyncIterable<string> | undefined>;
+}
+
+const DEFAULT_RETRY_DELAY = 3000;
+
+/**
+ * Parse `text/event-stream` lines into events. `id:` and `retry:` fields are also
+ * reported through the hooks, since they matter even in blocks without data.
+ */
+export async function* parseEventStream(
+  lines: AsyncIterable<string>,
+  hooks: { onId?: (_id: string) => void; onRetry?: (_ms: number) => void } = {}
+): AsyncGenerator<ServerSentEvent> {
+  let data: string[] = [];
+  let event = "";
+  let lastEventId: string | undefined;
+  let first = true;
+
+  for await (let line of lines) {
+    if (first) {
+      first = false;
+      if (line.charCodeAt(0) === 0xfeff) line = line.slice(1);
+    }
+
+    // A blank line dispatches the buffered event
+    if (line === "") {
+      if (data.length > 0) {
+        const dispatched: ServerSentEvent = { event: event || "message", data: data.join("\n") };
+        if (lastEventId !== undefined) dispatched.id = lastEventId;
+        yield dispatched;
+      }
+      data = [];
+      event = "";
+      continue;
+    }
+    if (line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        data.push(value);
+        break;
+      case "event":
+        event = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          lastEventId = value;
+          hooks.onId?.(value);
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) hooks.onRetry?.(Number(value));
+        break;
+    }
+  }
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      globalThis.clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = globalThis.setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Server-Sent Events connection, consumed with `for await`. Reconnects with
+ * `Last-Event-ID` after network failures or when the server ends the stream.
+ * Errors carrying an HTTP response (bad status or content type) end it for good.
+ * Can be iterated once; leaving the loop or calling `close()` closes the connection.
+ */
+export class EventStream implements AsyncIterable<ServerSentEvent> {
+  /**
+   * ID of the last event received; sent as `Last-Event-ID` when reconnecting.
+   */
+  lastEventId?: string;
+  private readonly connect: SSEConnector;
+  private readonly controller: AbortController;
+  private readonly config: SSEConfig;
+  private readonly onClose: () => void;
+  private started = false;
+
+  constructor(connect: SSEConnector, controller: AbortController, config: SSEConfig, onClose: () => void) {
+    this.connect = connect;
+    this.controller = controller;
+    this.config = config;
+    this.onClose = onClose;
+    this.lastEventId = config.lastEventId;
+  }
+
+  /**
+   * True once the stream was closed or cancelled.
+   */
+  get closed(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  close(): void {
+    this.controller.abort();
+    this.onClose();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ServerSentEvent> {
+    if (this.started) {
+      throw new Error("An event stream can only be iterated once.");
+    }
+    this.started = true;
+    return this.run();
+  }
+
+  private async *run(): AsyncGenerator<ServerSentEvent> {
+    const signal = this.controller.signal;
+    const reconnect = this.config.reconnect ?? true;
+    const maxRetries = this.config.maxRetries ?? Infinity;
+    let retryDelay = this.config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    let failures = 0;
+
+    try {
+      while (!signal.aborted) {
+        try {
+          const lines = await this.connect(this.lastEventId, signal);
+          if (!lines) return;
+          failures = 0;
+          const events = parseEventStream(lines, {
+            onId: (id) => (this.lastEventId = id),
+            onRetry: (ms) => (retryDelay = ms),
+          });
+          for await (const event of events) {
+            yield event;
+          }
+        } catch (error) {
+          if (signal.aborted) return;
+          failures++;
+          if ((error as { response?: unknown })?.response || !reconnect || failures > maxRetries) {
+            throw error;
+          }
+        }
+        if (!reconnect) return;
+        await wait(retryDelay, signal);
+      }
+    } finally {
+      this.close();
+    }
+  }
+}
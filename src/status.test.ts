@@ -0,0 +1,62 @@
+import { HttpClient, HttpStatusError, ResponseStream } from "./index";
+import { jsonResponse } from "./test-helpers";
+
+describe("validateStatus", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should resolve statuses accepted by the instance validator and run response interceptors", async () => {
+    const client = HttpClient.create({ validateStatus: (status) => status < 500 });
+    const seen: number[] = [];
+    client.interceptors.response.use((res) => {
+      seen.push(res.status);
+      return res;
+    });
+    jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ found: false }, 404))
+      .mockResolvedValueOnce(jsonResponse({ down: true }, 500));
+
+    const res = await client.get("/users/9");
+    expect(res.status).toBe(404);
+    expect(res.data).toEqual({ found: false });
+
+    const err = await client.get("/boom").catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(seen).toEqual([404]);
+  });
+
+  it("should let a request validator override the instance one", async () => {
+    const client = HttpClient.create({ validateStatus: () => true });
+    jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(jsonResponse({}, 418))
+      .mockResolvedValueOnce(jsonResponse({}, 201));
+
+    await expect(client.get("/teapot")).resolves.toMatchObject({ status: 418 });
+    const err = await client.post("/things", {}, { validateStatus: (status: number) => status === 200 } as any)
+      .catch((e) => e);
+    expect(err.status).toBe(201);
+    expect((global.fetch as jest.Mock).mock.calls[1][1].validateStatus).toBeUndefined();
+  });
+
+  it("should not retry statuses that the validator accepts", async () => {
+    const fetchSpy = jest.spyOn(global as any, "fetch").mockResolvedValue(jsonResponse({ healthy: false }, 503));
+
+    const res = await HttpClient.get("https://api.example.com/health", {
+      retry: { retries: 2, baseDelay: 1 },
+      validateStatus: (status: number) => status === 200 || status === 503,
+    } as any);
+    expect(res.data).toEqual({ healthy: false });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stream bodies of accepted non-2xx responses", async () => {
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(new Response("a\nb\n", { status: 404 }));
+
+    const res = await HttpClient.get<ResponseStream<string>>("https://api.example.com/log", {
+      responseType: "lines",
+      validateStatus: () => true,
+    } as any);
+    expect(await res.data.toArray()).toEqual(["a", "b"]);
+  });
+});
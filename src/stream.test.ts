@@ -0,0 +1,217 @@
+import { CancelError, HttpClient, ParseError, ResponseStream, TimeoutError } from "./index";
+
+const encoder = new TextEncoder();
+
+// Body whose chunks are pushed by the test; cancel() is recorded
+function controlledBody() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const state = { cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return {
+    body,
+    state,
+    push: (text: string) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+  };
+}
+
+// fetch mock that errors the body when its signal aborts, like real fetch does
+function mockStreamingFetch(status = 200, headers: Record<string, string> = {}) {
+  const source = controlledBody();
+  const spy = jest.spyOn(global as any, "fetch").mockImplementation(async (_url: any, opts: any) => {
+    const reader = source.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(c) {
+        const aborted = new Promise<never>((_, reject) => {
+          if (opts.signal.aborted) reject(opts.signal.reason);
+          opts.signal.addEventListener("abort", () => reject(opts.signal.reason), { once: true });
+        });
+        try {
+          const { done, value } = await Promise.race([reader.read(), aborted]);
+          if (done) c.close();
+          else c.enqueue(value);
+        } catch (error) {
+          c.error(error);
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+    return new Response(body, { status, headers });
+  });
+  return { ...source, spy };
+}
+
+describe("Streaming responses", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should yield raw chunks as they arrive", async () => {
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ResponseStream<Uint8Array>>("https://api.example.com/export", {
+      responseType: "chunks",
+    } as any);
+
+    expect(res.status).toBe(200);
+    expect(res.data).toBeInstanceOf(ResponseStream);
+    source.push("ab");
+    source.push("cd");
+    source.close();
+
+    const decoded = (await res.data.toArray()).map((c) => new TextDecoder().decode(c));
+    expect(decoded).toEqual(["ab", "cd"]);
+  });
+
+  it("should split lines across chunk boundaries", async () => {
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ResponseStream<string>>("https://api.example.com/log", {
+      responseType: "lines",
+    } as any);
+
+    source.push("first\r\nsec");
+    source.push("ond\n\nlast");
+    source.close();
+    expect(await res.data.toArray()).toEqual(["first", "second", "", "last"]);
+  });
+
+  it("should parse NDJSON records and report the failing line", async () => {
+    const client = HttpClient.create();
+    jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(new Response('{"id":1}\n\n{"id":2}\n'))
+      .mockResolvedValueOnce(new Response('{"id":1}\nnot json\n'));
+
+    const ok = await client.get<ResponseStream<{ id: number }>>("/rows", { responseType: "ndjson" } as any);
+    const ids: number[] = [];
+    for await (const row of ok.data) {
+      ids.push(row.id);
+    }
+    expect(ids).toEqual([1, 2]);
+
+    const bad = await client.get<ResponseStream<unknown>>("/rows", { responseType: "ndjson" } as any);
+    const err = await bad.data.toArray().catch((e) => e);
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.message).toMatch(/^Failed to parse NDJSON line 2:/);
+    expect(err.rawBody).toBe("not json");
+  });
+
+  it("should only allow one iteration", async () => {
+    jest.spyOn(global as any, "fetch").mockResolvedValueOnce(new Response("a\n"));
+    const res = await HttpClient.get<ResponseStream<string>>("https://api.example.com/x", { responseType: "lines" } as any);
+    await res.data.toArray();
+    expect(() => res.data[Symbol.asyncIterator]()).toThrow("A response stream can only be iterated once.");
+  });
+
+  it("should run response interceptors and reject error statuses with a buffered body", async () => {
+    const client = HttpClient.create();
+    const seen: number[] = [];
+    client.interceptors.response.use((res) => {
+      seen.push(res.status);
+      return res;
+    });
+    jest.spyOn(global as any, "fetch")
+      .mockResolvedValueOnce(new Response("x\n"))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: "nope" }), {
+        status: 403,
+        headers: { "content-type": "application/json" },
+      }));
+
+    await client.get("/ok", { responseType: "lines" } as any);
+    expect(seen).toEqual([200]);
+
+    const err = await client.get("/denied", { responseType: "ndjson" } as any).catch((e) => e);
+    expect(err.message).toBe("Request failed with status code 403");
+    expect(err.response.data).toEqual({ error: "nope" });
+  });
+
+  it("should cancel the body when the consumer stops early and free the controlKey", async () => {
+    const client = HttpClient.create();
+    const source = mockStreamingFetch();
+    const res = await client.get<ResponseStream<string>>("/feed", { responseType: "lines", controlKey: "feed" } as any);
+    expect(client["controllers"].has("feed")).toBe(true);
+
+    source.push("one\ntwo\n");
+    for await (const line of res.data) {
+      expect(line).toBe("one");
+      break;
+    }
+    expect(source.state.cancelled).toBe(true);
+    expect(client["controllers"].has("feed")).toBe(false);
+  });
+
+  it("should abort the stream halfway through via controlKey", async () => {
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ResponseStream<string>>("https://api.example.com/feed", {
+      responseType: "lines",
+      controlKey: "live-feed",
+    } as any);
+
+    source.push("one\n");
+    const iterator = res.data[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toBe("one");
+
+    HttpClient.cancelRequest("live-feed");
+    const err = await iterator.next().catch((e) => e);
+    expect(err).toBeInstanceOf(CancelError);
+    expect(err.controlKey).toBe("live-feed");
+  });
+
+  it("should keep the timeout running while the body streams", async () => {
+    jest.useFakeTimers();
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ResponseStream<Uint8Array>>("https://api.example.com/slow", {
+      responseType: "chunks",
+      timeout: 1000,
+    } as any);
+
+    source.push("partial");
+    const iterator = res.data[Symbol.asyncIterator]();
+    await iterator.next();
+    const pending = iterator.next();
+    jest.advanceTimersByTime(1000);
+    await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("should keep the raw stream mode wired to cancellation", async () => {
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ReadableStream<Uint8Array>>("https://api.example.com/raw", {
+      responseType: "stream",
+      controlKey: "raw",
+    } as any);
+    const reader = res.data.getReader();
+    source.push("x");
+    await reader.read();
+    HttpClient.cancelRequest("raw");
+    await expect(reader.read()).rejects.toBeInstanceOf(CancelError);
+  });
+
+  it("should cancel an unread stream", async () => {
+    const source = mockStreamingFetch();
+    const res = await HttpClient.get<ResponseStream>("https://api.example.com/unused", { responseType: "chunks" } as any);
+    await res.data.cancel();
+    expect(source.state.cancelled).toBe(true);
+  });
+
+  it("should cancel a partly read stream and release its slot and controlKey", async () => {
+    const client = HttpClient.create({ maxConcurrent: 1 });
+    const source = mockStreamingFetch();
+    const res = await client.get<ResponseStream<string>>("/feed", { responseType: "lines", controlKey: "k" } as any);
+
+    source.push("one\n");
+    const iterator = res.data[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toBe("one");
+    await res.data.cancel();
+
+    expect(source.state.cancelled).toBe(true);
+    expect(client.getQueueStats()).toMatchObject({ active: 0 });
+    expect(client["controllers"].has("k")).toBe(false);
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { ParseError } from "./errors.js";
+
+/**
+ * Incremental ways of consuming a response body:
+ * - "chunks": raw `Uint8Array` chunks as they arrive
+ * - "lines": decoded text lines (`\n` or `\r\n` separated, without the line break)
+ * - "ndjson": one parsed JSON value per non-empty line
+ */
+export type StreamMode = "chunks" | "lines" | "ndjson";
+
+/**
+ * Async iterable over a response body that is read as it arrives. It can be iterated
+ * once; leaving the loop early (`break`, `return`, a thrown error) cancels the body.
+ */
+export class ResponseStream<T = Uint8Array> implements AsyncIterable<T> {
+  private readonly body: ReadableStream<Uint8Array>;
+  private readonly mode: StreamMode;
+  private started = false;
+  private reader?: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(body: ReadableStream<Uint8Array>, mode: StreamMode = "chunks") {
+    this.body = body;
+    this.mode = mode;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    if (this.started) {
+      throw new Error("A response stream can only be iterated once.");
+    }
+    this.started = true;
+    const reader = (this.reader = this.body.getReader());
+    switch (this.mode) {
+      case "lines":
+        return readLines(reader) as AsyncIterator<T>;
+      case "ndjson":
+        return readNDJSON(reader) as AsyncIterator<T>;
+      default:
+        return readChunks(reader) as AsyncIterator<T>;
+    }
+  }
+
+  /**
+   * Stop reading and release the connection without iterating (or after a partial read).
+   */
+  async cancel(reason?: unknown): Promise<void> {
+    if (this.started) {
+      // The iterator holds the body; cancelling through its reader ends the iteration too
+      await this.reader?.cancel(reason).catch(() => undefined);
+      return;
+    }
+    this.started = true;
+    await this.body.cancel(reason).catch(() => undefined);
+  }
+
+  /**
+   * Read every item into an array.
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+async function* readChunks(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<Uint8Array> {
+  let finished = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // The consumer stopped early: nobody will read the rest of the body
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+async function* readLines(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of readChunks(reader)) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      yield line.endsWith("\r") ? line.slice(0, -1) : line;
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer.endsWith("\r") ? buffer.slice(0, -1) : buffer;
+  }
+}
+
+async function* readNDJSON(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<unknown> {
+  let lineNumber = 0;
+  for await (const line of readLines(reader)) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch (error) {
+      throw new ParseError(`Failed to parse NDJSON line ${lineNumber}: ${(error as Error).message}`, {
+        rawBody: line,
+        cause: error,
+      });
+    }
+  }
+}
+
+/**
+ * Wrap a body so `release` runs exactly once when it has been fully read, fails or is cancelled.
+ * Used to keep a request's timeout and cancellation wired up while the body is streamed.
+ */
+export function releaseOnSettle(
+  body: ReadableStream<Uint8Array>,
+  release: () => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let released = false;
+  const settle = () => {
+    if (released) return;
+    released = true;
+    release();
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          settle();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        settle();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      settle();
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,78 @@
+// Fixtures shared by the test suites; not part of the build
+
+/**
+ * A real Response with a JSON body.
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } });
+}
+
+export interface FakeResponseInit {
+  /**
+   * JSON body (default `{ ok: true }`); ignored when `text` is given.
+   */
+  data?: unknown;
+  /**
+   * Raw body text, e.g. for malformed JSON.
+   */
+  text?: string;
+  status?: number;
+  /**
+   * Response headers. Content-Type defaults to JSON; "" leaves it out.
+   */
+  headers?: Record<string, string>;
+  /**
+   * What `responseType: "stream"` hands out.
+   */
+  body?: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * A Response-like object whose body readers are jest mocks, to assert how (and whether) the
+ * body is read. `blob()`, `arrayBuffer()` and `formData()` resolve with "blob", "buffer" and "form".
+ */
+export function fakeResponse(init: FakeResponseInit = {}): Response {
+  const { data = { ok: true }, status = 200, body = null } = init;
+  const text = init.text ?? JSON.stringify(data);
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  Object.entries(init.headers ?? {}).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+  if (!headers["content-type"]) delete headers["content-type"];
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+      forEach: (cb: (_value: string, _name: string) => void) => Object.entries(headers).forEach(([name, value]) => cb(value, name)),
+    },
+    body,
+    json: jest.fn(async () => JSON.parse(text)),
+    text: jest.fn(async () => text),
+    blob: jest.fn(async () => "blob"),
+    arrayBuffer: jest.fn(async () => "buffer"),
+    formData: jest.fn(async () => "form"),
+    clone: () => fakeResponse(init),
+  } as unknown as Response;
+}
+
+/**
+ * Resolves once pending I/O callbacks and promise jobs have run.
+ */
+export const tick = () => new Promise((r) => globalThis.setImmediate(r));
+
+/**
+ * Spy on fetch with requests that stay pending until the test resolves them. Each rejects
+ * with its signal's reason when aborted, like real fetch does.
+ */
+export function deferredFetch() {
+  const pending: { url: string; resolve: (_res: Response) => void; signal: AbortSignal }[] = [];
+  const spy = (jest.spyOn(global as any, "fetch") as any).mockImplementation((url: string, opts: any) => {
+    return new Promise((resolve, reject) => {
+      pending.push({ url, resolve, signal: opts.signal });
+      opts.signal.addEventListener("abort", () => reject(opts.signal.reason));
+    });
+  });
+  return { spy, pending };
+}